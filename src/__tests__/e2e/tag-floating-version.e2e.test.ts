@@ -3,6 +3,7 @@ import * as os from "os";
 import * as path from "path";
 import { execFileSync } from "child_process";
 import { run as runAction } from "../../index";
+import * as git from "../../git";
 
 const originalEnv = { ...process.env };
 const originalCwd = process.cwd();
@@ -77,6 +78,8 @@ afterAll(() => {
 
 beforeEach(() => {
 	process.env = { ...originalEnv };
+	// Keep the job summary out of the summary of the workflow running the tests
+	delete process.env.GITHUB_STEP_SUMMARY;
 	process.chdir(workDir);
 	process.env.GIT_WORKING_DIRECTORY = workDir;
 	deleteAllTags();
@@ -85,6 +88,7 @@ beforeEach(() => {
 
 afterEach(() => {
 	process.env = originalEnv;
+	jest.restoreAllMocks();
 });
 
 describe("E2E: floating tag updates", () => {
@@ -101,7 +105,7 @@ describe("E2E: floating tag updates", () => {
 
 		await runAction();
 
-		const tagSha = execGit(["rev-parse", sourceTag], workDir);
+		const tagSha = execGit(["rev-parse", `${sourceTag}^{commit}`], workDir);
 		const majorSha = execGit(["rev-parse", "refs/tags/v1"], workDir);
 		const minorSha = execGit(["rev-parse", "refs/tags/v1.2"], workDir);
 
@@ -126,7 +130,7 @@ describe("E2E: floating tag updates", () => {
 
 		await runAction();
 
-		const tagSha = execGit(["rev-parse", sourceTag], workDir);
+		const tagSha = execGit(["rev-parse", `${sourceTag}^{commit}`], workDir);
 		const majorSha = execGit(["rev-parse", "refs/tags/v2"], workDir);
 		expect(majorSha).toBe(tagSha);
 
@@ -139,4 +143,193 @@ describe("E2E: floating tag updates", () => {
 		const remoteMinor = execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v2.0"]);
 		expect(remoteMinor).toBe("");
 	});
+
+	test("does not push again when the remote tags are already correct", async () => {
+		const sourceTag = "v4.0.0";
+		execGit(["tag", "-a", sourceTag, "-m", "src tag"], workDir);
+
+		process.env.INPUT_TAG = sourceTag;
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "false";
+		process.env.INPUT_VERBOSE = "false";
+
+		await runAction();
+
+		// Simulate a fresh checkout without the floating tags, then run again
+		execGit(["tag", "-d", "v4", "v4.0"], workDir);
+		const pushSpy = jest.spyOn(git, "pushTags");
+
+		await runAction();
+
+		expect(pushSpy).not.toHaveBeenCalled();
+		const tagSha = execGit(["rev-parse", `${sourceTag}^{commit}`], workDir);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v4"])).toBe(tagSha);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v4.0"])).toBe(tagSha);
+	});
+
+	// Moves v3 on the remote after the action has read the remote state, like a concurrent release would
+	function simulateConcurrentRelease(): { staleSha: string; concurrentSha: string } {
+		execGit(["commit", "--allow-empty", "-m", "previous release"], workDir);
+		const staleSha = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["push", "origin", `+${staleSha}:refs/tags/v3`], workDir);
+		execGit(["commit", "--allow-empty", "-m", "concurrent release"], workDir);
+		const concurrentSha = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["reset", "--hard", "HEAD~2"], workDir);
+
+		const realGetRemoteTags = git.getRemoteTags;
+		jest.spyOn(git, "getRemoteTags").mockImplementationOnce(async (tagNames, logger) => {
+			const remoteTags = await realGetRemoteTags(tagNames, logger);
+			execGit(["push", "origin", `+${concurrentSha}:refs/tags/v3`], workDir);
+			return remoteTags;
+		});
+		return { staleSha, concurrentSha };
+	}
+
+	test("pushes nothing when a floating tag moved on the remote in the meantime", async () => {
+		const sourceTag = "v3.1.0";
+		execGit(["tag", "-a", sourceTag, "-m", "src tag"], workDir);
+		const { concurrentSha } = simulateConcurrentRelease();
+
+		process.env.INPUT_TAG = sourceTag;
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "false";
+		process.env.INPUT_VERBOSE = "false";
+		process.exitCode = undefined;
+
+		await runAction();
+
+		// The lease on v3 fails, so the atomic push leaves v3.1 off the remote as well
+		expect(process.exitCode).toBe(1);
+		process.exitCode = undefined;
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v3"])).toBe(concurrentSha);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "--verify", "--quiet", "refs/tags/v3.1"])).toBe("");
+	});
+
+	test("retries with the remote's current state when leaseRetries is set", async () => {
+		const sourceTag = "v3.1.0";
+		execGit(["tag", "-a", sourceTag, "-m", "src tag"], workDir);
+		simulateConcurrentRelease();
+
+		process.env.INPUT_TAG = sourceTag;
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "false";
+		process.env.INPUT_VERBOSE = "false";
+		process.env.INPUT_LEASERETRIES = "1";
+		process.exitCode = undefined;
+
+		await runAction();
+
+		expect(process.exitCode).toBeUndefined();
+		const tagSha = execGit(["rev-parse", `${sourceTag}^{commit}`], workDir);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v3"])).toBe(tagSha);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v3.1"])).toBe(tagSha);
+	});
+
+	test("rolls back the tags already pushed when the push fails midway", async () => {
+		const sourceTag = "v5.1.0";
+		execGit(["tag", "-a", sourceTag, "-m", "src tag"], workDir);
+		execGit(["commit", "--allow-empty", "-m", "previous release"], workDir);
+		const previousSha = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["reset", "--hard", "HEAD~1"], workDir);
+		execGit(["push", "origin", `+${previousSha}:refs/tags/v5`], workDir);
+
+		// Only v5 reaches the remote before the connection drops
+		const realPushTags = git.pushTags;
+		jest.spyOn(git, "pushTags").mockImplementationOnce(async (pushes, logger) => {
+			await realPushTags(pushes.slice(0, 1), logger);
+			throw new Error("Failed to push tag v5.1: connection reset");
+		});
+
+		process.env.INPUT_TAG = sourceTag;
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "false";
+		process.env.INPUT_VERBOSE = "false";
+		process.env.INPUT_RETRIES = "0";
+		const outputSpy = jest.spyOn(process.stdout, "write");
+		process.exitCode = undefined;
+
+		await runAction();
+
+		expect(process.exitCode).toBe(1);
+		process.exitCode = undefined;
+		const output = outputSpy.mock.calls.map(([chunk]) => String(chunk)).join("");
+		expect(output).toContain(`Rolled back 1 floating tag(s) on the remote: v5 (restored to ${previousSha.substring(0, 7)})`);
+
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v5"])).toBe(previousSha);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "--verify", "--quiet", "refs/tags/v5.1"])).toBe("");
+		expect(execGitSafe(["rev-parse", "--verify", "--quiet", "refs/tags/v5"])).toBe("");
+	});
+
+	test("reconciles every floating tag from the tag history", async () => {
+		const startSha = execGit(["rev-parse", "HEAD"], workDir);
+		const release = (tagName: string): string => {
+			execGit(["commit", "--allow-empty", "-m", `release ${tagName}`], workDir);
+			execGit(["tag", "-a", tagName, "-m", "src tag"], workDir);
+			return execGit(["rev-parse", "HEAD"], workDir);
+		};
+		const v100 = release("v1.0.0");
+		const v110 = release("v1.1.0");
+		const v105 = release("v1.0.5");
+		release("v2.0.0-beta.1");
+		execGit(["reset", "--hard", startSha], workDir);
+
+		// v1 was moved back by hand, v1.1 is already correct
+		execGit(["push", "origin", `+${v100}:refs/tags/v1`, `+${v110}:refs/tags/v1.1`], workDir);
+
+		process.env.INPUT_MODE = "reconcile";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "true";
+		process.env.INPUT_VERBOSE = "false";
+
+		const pushSpy = jest.spyOn(git, "pushTags");
+		await runAction();
+
+		expect(process.exitCode).not.toBe(1);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v1"])).toBe(v110);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v1.0"])).toBe(v105);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v1.1"])).toBe(v110);
+		// Prereleases are ignored like for a single release
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v2"])).toBe("");
+
+		const pushed = pushSpy.mock.calls[0][0].map((push) => push.tagName).sort();
+		expect(pushed).toEqual(["v1", "v1.0"]);
+	});
+
+	test("verify fails with the drifted tags and writes nothing", async () => {
+		const startSha = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["commit", "--allow-empty", "-m", "release v1.0.0"], workDir);
+		execGit(["tag", "-a", "v1.0.0", "-m", "src tag"], workDir);
+		const v100 = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["commit", "--allow-empty", "-m", "release v1.1.0"], workDir);
+		execGit(["tag", "-a", "v1.1.0", "-m", "src tag"], workDir);
+		const v110 = execGit(["rev-parse", "HEAD"], workDir);
+		execGit(["reset", "--hard", startSha], workDir);
+
+		process.env.INPUT_MODE = "verify";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "true";
+		process.env.INPUT_VERBOSE = "false";
+
+		// Everything in place
+		execGit(["push", "origin", `+${v110}:refs/tags/v1`, `+${v100}:refs/tags/v1.0`, `+${v110}:refs/tags/v1.1`], workDir);
+		await runAction();
+		expect(process.exitCode).not.toBe(1);
+
+		// Someone force-pushes v1 back by hand and deletes v1.0
+		execGit(["push", "origin", `+${v100}:refs/tags/v1`, ":refs/tags/v1.0"], workDir);
+		const outputSpy = jest.spyOn(process.stdout, "write");
+		process.exitCode = undefined;
+		await runAction();
+		expect(process.exitCode).toBe(1);
+		process.exitCode = undefined;
+
+		const output = outputSpy.mock.calls.map(([chunk]) => String(chunk)).join("");
+		expect(output).toContain("2 of 3 floating tag(s) drifted from their expected release: v1, v1.0");
+		expect(output).toMatch(/v1 {3,}\w{7} \(v1\.1\.0\) {3}\w{7}/);
+		expect(output).toMatch(/v1\.0 {3,}\w{7} \(v1\.0\.0\) {3}\(missing\)/);
+
+		// Nothing was written
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v1"])).toBe(v100);
+		expect(execGitSafe(["--git-dir", bareDir, "rev-parse", "refs/tags/v1.0"])).toBe("");
+	});
 });
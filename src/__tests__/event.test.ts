@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { detectTag } from '../event';
+import { Logger } from '../logger';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const fixture = (name: string) => path.join(__dirname, 'fixtures', 'events', name);
+
+describe('detectTag', () => {
+  const originalEnv = process.env;
+  const logger = new Logger(false);
+
+  const setEvent = (eventName: string, eventFile?: string, ref?: string) => {
+    process.env.GITHUB_EVENT_NAME = eventName;
+    if (eventFile) {
+      process.env.GITHUB_EVENT_PATH = fixture(eventFile);
+    }
+    if (ref) {
+      process.env.GITHUB_REF = ref;
+    }
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITHUB_EVENT_NAME;
+    delete process.env.GITHUB_EVENT_PATH;
+    delete process.env.GITHUB_REF;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use the tag of a published release', () => {
+    setEvent('release', 'release-published.json', 'refs/tags/v32.1.0');
+    expect(detectTag(logger)).toBe('v32.1.0');
+  });
+
+  it('should use the pushed tag from GITHUB_REF', () => {
+    setEvent('push', undefined, 'refs/tags/v2.3.4');
+    expect(detectTag(logger)).toBe('v2.3.4');
+  });
+
+  it('should fall back to the ref in the push payload', () => {
+    setEvent('push', 'push-tag.json');
+    expect(detectTag(logger)).toBe('v2.3.4');
+  });
+
+  it('should use the tag input of a workflow_dispatch run', () => {
+    setEvent('workflow_dispatch', 'workflow-dispatch.json', 'refs/heads/main');
+    expect(detectTag(logger)).toBe('v1.2.3');
+  });
+
+  it('should use the tag a workflow_dispatch run was started on', () => {
+    setEvent('workflow_dispatch', undefined, 'refs/tags/v4.0.0');
+    expect(detectTag(logger)).toBe('v4.0.0');
+  });
+
+  it('should fail for a push to a branch', () => {
+    setEvent('push', undefined, 'refs/heads/main');
+    expect(() => detectTag(logger)).toThrow('Could not detect a tag from the "push" event (ref: refs/heads/main)');
+  });
+
+  it('should fail for unsupported events', () => {
+    setEvent('pull_request', 'pull-request.json', 'refs/pull/1/merge');
+    expect(() => detectTag(logger)).toThrow('The tag input is required for "pull_request" events');
+  });
+});
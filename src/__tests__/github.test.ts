@@ -0,0 +1,334 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { AddressInfo } from 'net';
+import * as git from '../git';
+import { LeaseRejectedError } from '../git';
+import { createGitHubBackend } from '../github';
+import { withRetryPolicy } from '../retry';
+import { Logger } from '../logger';
+import { TagBackend } from '../types';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+}));
+
+const COMMIT_A = 'a'.repeat(40);
+const COMMIT_B = 'b'.repeat(40);
+
+interface GitObject {
+  sha: string;
+  type: string;
+}
+
+/**
+ * Minimal stand-in for the GitHub Git References and Git Tags APIs of a single repository
+ */
+class GitHubStandIn {
+  readonly refs = new Map<string, GitObject>();
+  readonly tagObjects = new Map<string, { tag: string; message: string; object: GitObject }>();
+  readonly commits = new Map<string, { message: string; parents: string[] }>();
+  readonly requests: string[] = [];
+  /** Responses to fail the next matching requests with, after applying them when `applied` is set (a lost response) */
+  readonly failures: { request: string; status: number; applied?: boolean }[] = [];
+  authorization: string | undefined;
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private nextSha = 1;
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private peel(object: GitObject): string {
+    let current = object;
+    while (current.type === 'tag') {
+      current = this.tagObjects.get(current.sha)!.object;
+    }
+    return current.sha;
+  }
+
+  private descendsFrom(sha: string, ancestor: string): boolean {
+    return sha === ancestor || (this.commits.get(sha)?.parents ?? []).some((parent) => this.descendsFrom(parent, ancestor));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const method = req.method!;
+      const url = decodeURIComponent(req.url!.replace(/^\/repos\/owner\/repo/, ''));
+      const data = body ? JSON.parse(body) : {};
+      this.requests.push(`${method} ${url}`);
+      this.authorization = req.headers.authorization;
+
+      let sent = false;
+      let send = (status: number, payload: unknown) => {
+        if (!sent) {
+          sent = true;
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(payload));
+        }
+      };
+      const failure = this.failures.findIndex((candidate) => candidate.request === `${method} ${url}`);
+      if (failure >= 0) {
+        const [{ status, applied }] = this.failures.splice(failure, 1);
+        if (!applied) {
+          return send(status, { message: 'Server Error' });
+        }
+        const reply = send;
+        send = () => reply(status, { message: 'Server Error' });
+      }
+      const refBody = (ref: string) => ({ ref, object: this.refs.get(ref) });
+
+      let match: RegExpMatchArray | null;
+      if (method === 'GET' && url === '/git/matching-refs/tags/') {
+        return send(200, [...this.refs.keys()].filter((ref) => ref.startsWith('refs/tags/')).map(refBody));
+      }
+      if (method === 'GET' && (match = url.match(/^\/git\/ref\/(tags\/.+)$/))) {
+        const ref = `refs/${match[1]}`;
+        return this.refs.has(ref) ? send(200, refBody(ref)) : send(404, { message: 'Not Found' });
+      }
+      if (method === 'GET' && (match = url.match(/^\/git\/tags\/(\w+)$/))) {
+        const tagObject = this.tagObjects.get(match[1]);
+        return tagObject ? send(200, { sha: match[1], ...tagObject }) : send(404, { message: 'Not Found' });
+      }
+      if (method === 'GET' && (match = url.match(/^\/commits\/(.+)$/))) {
+        const object = this.refs.get(`refs/tags/${match[1]}`);
+        if (object) {
+          return send(200, { sha: this.peel(object) });
+        }
+        return /^[0-9a-f]{40}$/.test(match[1]) ? send(200, { sha: match[1] }) : send(422, { message: `No commit found for SHA: ${match[1]}` });
+      }
+      if (method === 'GET' && (match = url.match(/^\/git\/commits\/(\w+)$/))) {
+        const commit = this.commits.get(match[1]);
+        return commit ? send(200, { sha: match[1], ...commit }) : send(404, { message: 'Not Found' });
+      }
+      if (method === 'GET' && (match = url.match(/^\/compare\/(\w+)\.\.\.(\w+)$/))) {
+        const [, base, head] = match;
+        const status = base === head ? 'identical' : this.descendsFrom(head, base) ? 'ahead' : this.descendsFrom(base, head) ? 'behind' : 'diverged';
+        return send(200, { status });
+      }
+      if (method === 'POST' && url === '/git/tags') {
+        const sha = (this.nextSha++).toString(16).padStart(40, 'c');
+        this.tagObjects.set(sha, { tag: data.tag, message: data.message, object: { sha: data.object, type: data.type } });
+        return send(201, { sha });
+      }
+      if (method === 'POST' && url === '/git/refs') {
+        if (this.refs.has(data.ref)) {
+          return send(422, { message: 'Reference already exists' });
+        }
+        this.refs.set(data.ref, this.objectFor(data.sha));
+        return send(201, refBody(data.ref));
+      }
+      if (method === 'PATCH' && (match = url.match(/^\/git\/refs\/(tags\/.+)$/))) {
+        const ref = `refs/${match[1]}`;
+        if (!this.refs.has(ref)) {
+          return send(422, { message: 'Reference does not exist' });
+        }
+        this.refs.set(ref, this.objectFor(data.sha));
+        return send(200, refBody(ref));
+      }
+      if (method === 'DELETE' && (match = url.match(/^\/git\/refs\/(tags\/.+)$/))) {
+        const ref = `refs/${match[1]}`;
+        if (!this.refs.delete(ref)) {
+          return send(422, { message: 'Reference does not exist' });
+        }
+        res.writeHead(204);
+        return res.end();
+      }
+      send(404, { message: 'Not Found' });
+    });
+  }
+
+  private objectFor(sha: string): GitObject {
+    return { sha, type: this.tagObjects.has(sha) ? 'tag' : 'commit' };
+  }
+}
+
+describe('GitHub API backend', () => {
+  const logger = new Logger(false);
+  let standIn: GitHubStandIn;
+  let backend: TagBackend;
+  let apiUrl: string;
+
+  beforeEach(async () => {
+    standIn = new GitHubStandIn();
+    apiUrl = await standIn.start();
+    backend = createGitHubBackend({ token: 'test-token', apiUrl, repository: 'owner/repo' }, logger);
+  });
+
+  afterEach(async () => {
+    await standIn.stop();
+  });
+
+  it('should authenticate with the token', async () => {
+    await backend.listTags(logger);
+    expect(standIn.authorization).toBe('Bearer test-token');
+  });
+
+  it('should list tags and resolve commits through the API', async () => {
+    standIn.refs.set('refs/tags/v1.0.0', { sha: COMMIT_A, type: 'commit' });
+    standIn.refs.set('refs/tags/v1.1.0', { sha: COMMIT_B, type: 'commit' });
+
+    expect(await backend.listTags(logger)).toEqual(['v1.0.0', 'v1.1.0']);
+    // The tags are the remote tags, so they are listed once
+    expect(backend.listsRemoteTags).toBe(true);
+    expect(await backend.listRemoteTags(logger)).toEqual(['v1.0.0', 'v1.1.0']);
+    expect(await backend.getCommitSha('v1.1.0', logger)).toBe(COMMIT_B);
+    expect(await backend.getCommitSha('refs/tags/v1.0.0', logger)).toBe(COMMIT_A);
+  });
+
+  it('should fail with the API error message for unknown refs', async () => {
+    await expect(backend.getCommitSha('v9.9.9', logger)).rejects.toThrow('Failed to resolve commit SHA for "v9.9.9": GitHub API GET /commits/v9.9.9 failed with status 422: No commit found for SHA: v9.9.9');
+  });
+
+  it('should create a new lightweight tag with POST /git/refs', async () => {
+    const result = await backend.createOrUpdateTag('v1', COMMIT_A, logger);
+    await backend.pushTags([{ tagName: 'v1', expectedSha: null }], logger);
+
+    expect(result).toEqual({ tagName: 'v1', commitSha: COMMIT_A, created: true, updated: false, unchanged: false });
+    expect(standIn.requests).toContain('POST /git/refs');
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_A, type: 'commit' });
+    expect(await backend.verifyTag('v1', COMMIT_A, logger)).toBe(true);
+  });
+
+  it('should move an existing tag with PATCH /git/refs', async () => {
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_A, type: 'commit' });
+
+    const result = await backend.createOrUpdateTag('v1', COMMIT_B, logger);
+    await backend.pushTags([{ tagName: 'v1', expectedSha: COMMIT_A }], logger);
+
+    expect(result).toEqual({ tagName: 'v1', commitSha: COMMIT_B, created: false, updated: true, unchanged: false });
+    expect(standIn.requests).toContain('PATCH /git/refs/tags/v1');
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_B, type: 'commit' });
+  });
+
+  it('should create annotated tags as tag objects', async () => {
+    const annotation = { message: 'Floating tag v1 -> v1.0.0', taggerName: 'Release Bot', taggerEmail: 'bot@example.com' };
+    await backend.createOrUpdateTag('v1', COMMIT_A, logger, annotation);
+    await backend.pushTags([{ tagName: 'v1', expectedSha: null }], logger);
+
+    const ref = standIn.refs.get('refs/tags/v1')!;
+    expect(ref.type).toBe('tag');
+    expect(standIn.tagObjects.get(ref.sha)).toEqual({ tag: 'v1', message: annotation.message, object: { sha: COMMIT_A, type: 'commit' } });
+
+    const remoteTags = await backend.getRemoteTags(['v1', 'v2'], logger);
+    expect(remoteTags.get('v1')).toEqual({ objectSha: ref.sha, commitSha: COMMIT_A });
+    expect(remoteTags.has('v2')).toBe(false);
+    expect(await backend.verifyTag('v1', COMMIT_A, logger)).toBe(true);
+  });
+
+  it('should retry a failed ref write without retrying the refs already written', async () => {
+    backend = createGitHubBackend({ token: 'test-token', apiUrl, repository: 'owner/repo', retry: { retries: 2, retryDelay: 0 } }, logger);
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_A, type: 'commit' });
+    standIn.failures.push({ request: 'POST /git/refs', status: 502 }, { request: 'POST /git/refs', status: 502, applied: true });
+
+    await backend.createOrUpdateTag('v1', COMMIT_B, logger);
+    await backend.createOrUpdateTag('v1.2', COMMIT_B, logger);
+    await backend.pushTags([{ tagName: 'v1', expectedSha: COMMIT_A }, { tagName: 'v1.2', expectedSha: null }], logger);
+
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_B, type: 'commit' });
+    expect(standIn.refs.get('refs/tags/v1.2')).toEqual({ sha: COMMIT_B, type: 'commit' });
+    // The second 502 lost the response of a create that went through: the third attempt finds the ref already in place
+    expect(standIn.requests.filter((request) => !request.startsWith('GET'))).toEqual(['PATCH /git/refs/tags/v1', 'POST /git/refs', 'POST /git/refs', 'POST /git/refs']);
+    expect(withRetryPolicy(backend, { retries: 2, retryDelay: 0 }, logger).pushTags).toBe(backend.pushTags);
+  });
+
+  it('should name the tags already written when a ref write keeps failing', async () => {
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_A, type: 'commit' });
+    standIn.failures.push({ request: 'POST /git/refs', status: 502 });
+
+    await backend.createOrUpdateTag('v1', COMMIT_B, logger);
+    await backend.createOrUpdateTag('v1.2', COMMIT_B, logger);
+    const push = backend.pushTags([{ tagName: 'v1', expectedSha: COMMIT_A }, { tagName: 'v1.2', expectedSha: null }], logger);
+
+    await expect(push).rejects.toThrow('Failed to push tag v1.2 (already updated: v1): GitHub API POST /git/refs failed with status 502: Server Error');
+    await expect(push).rejects.not.toThrow(LeaseRejectedError);
+  });
+
+  it('should reject the update when a tag moved since it was read', async () => {
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_B, type: 'commit' });
+
+    await backend.createOrUpdateTag('v1', COMMIT_A, logger);
+    const push = backend.pushTags([{ tagName: 'v1', expectedSha: null }], logger);
+
+    await expect(push).rejects.toThrow(LeaseRejectedError);
+    await expect(push).rejects.toThrow('stale info');
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_B, type: 'commit' });
+    expect(standIn.requests.filter((request) => !request.startsWith('GET'))).toEqual([]);
+  });
+
+  it('should restore a moved tag and delete a created one', async () => {
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_B, type: 'commit' });
+    standIn.refs.set('refs/tags/v2', { sha: COMMIT_B, type: 'commit' });
+
+    await backend.restoreRemoteTag({ tagName: 'v1', previousSha: COMMIT_A, expectedSha: COMMIT_B }, logger);
+    await backend.restoreRemoteTag({ tagName: 'v2', previousSha: null, expectedSha: COMMIT_B }, logger);
+
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_A, type: 'commit' });
+    expect(standIn.refs.has('refs/tags/v2')).toBe(false);
+  });
+
+  it('should not restore a tag that was moved by someone else', async () => {
+    standIn.refs.set('refs/tags/v1', { sha: COMMIT_A, type: 'commit' });
+
+    await expect(backend.restoreRemoteTag({ tagName: 'v1', previousSha: null, expectedSha: COMMIT_B }, logger)).rejects.toThrow('Failed to restore remote tag v1: remote tag points to aaaaaaa instead of bbbbbbb (stale info)');
+    expect(standIn.refs.get('refs/tags/v1')).toEqual({ sha: COMMIT_A, type: 'commit' });
+  });
+
+  it('should compare commits and read their subjects', async () => {
+    const COMMIT_C = 'c'.repeat(40);
+    standIn.commits.set(COMMIT_A, { message: 'Release 1.0.0', parents: [] });
+    standIn.commits.set(COMMIT_B, { message: 'Release 1.1.0\n\nWith details', parents: [COMMIT_A] });
+    standIn.commits.set(COMMIT_C, { message: 'Stray release', parents: [] });
+
+    expect(await backend.isAncestor(COMMIT_A, COMMIT_B, logger)).toBe(true);
+    expect(await backend.isAncestor(COMMIT_A, COMMIT_A, logger)).toBe(true);
+    expect(await backend.isAncestor(COMMIT_B, COMMIT_A, logger)).toBe(false);
+    expect(await backend.isAncestor(COMMIT_A, COMMIT_C, logger)).toBe(false);
+    expect(await backend.getCommitSubject(COMMIT_B, logger)).toBe('Release 1.1.0');
+    expect(await backend.getCommitSubject('d'.repeat(40), logger)).toBeUndefined();
+  });
+
+  it('should refuse signed tags', async () => {
+    await expect(backend.createOrUpdateTag('v1', COMMIT_A, logger, undefined, { format: 'ssh', gitConfig: [], tempDir: '' })).rejects.toThrow('Signed tags are not supported by the github backend');
+  });
+
+  describe('compared to the git backend', () => {
+    const originalCwd = process.cwd();
+    let repoDir: string;
+
+    beforeAll(() => {
+      repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'github-backend-test-'));
+      execSync('git init -q && git -c user.name=Test -c user.email=test@example.com commit -q --allow-empty -m initial', { cwd: repoDir });
+    });
+
+    afterAll(() => {
+      process.chdir(originalCwd);
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should report the same results when creating and updating tags', async () => {
+      process.chdir(repoDir);
+      const commitSha = execSync('git rev-parse HEAD', { encoding: 'utf8' }).trim();
+      standIn.refs.set('refs/tags/v2', { sha: COMMIT_A, type: 'commit' });
+      execSync(`git tag v2 ${commitSha}`);
+
+      for (const tagName of ['v1', 'v2']) {
+        const cliResult = await git.createOrUpdateTag(tagName, commitSha, logger);
+        const apiResult = await backend.createOrUpdateTag(tagName, commitSha, logger);
+        expect(apiResult).toEqual(cliResult);
+      }
+      process.chdir(originalCwd);
+    });
+  });
+});
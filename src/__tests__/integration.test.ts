@@ -8,6 +8,7 @@ import * as os from "os";
 const originalEnv = { ...process.env };
 const originalCwd = process.cwd();
 let tempRepoDir: string | null = null;
+let remoteRepoDir: string | null = null;
 
 // Mock @actions/core to capture outputs
 const mockSetOutput = jest.fn();
@@ -35,20 +36,23 @@ jest.mock("@actions/core", () => ({
 		return value === "true";
 	}),
 	setOutput: mockSetOutput,
+	setSecret: jest.fn(),
 	info: mockInfo,
 	debug: mockDebug,
 	warning: mockWarning,
 	error: mockError,
 	setFailed: mockSetFailed,
+	// The job summary is written to the file named by GITHUB_STEP_SUMMARY
+	summary: jest.requireActual("@actions/core").summary,
 }));
 
-// Mock pushTag to skip actual git push (we'll verify tags locally)
-const mockPushTag = jest.fn().mockResolvedValue(undefined);
+// Mock pushTags to skip actual git push (we'll verify tags locally)
+const mockPushTags = jest.fn().mockResolvedValue(undefined);
 jest.mock("../git", () => {
 	const original = jest.requireActual("../git");
 	return {
 		...original,
-		pushTag: mockPushTag,
+		pushTags: mockPushTags,
 	};
 });
 
@@ -110,7 +114,8 @@ function gitTagExists(tagName: string): boolean {
 
 function getTagSha(tagName: string): string | null {
 	try {
-		const result = runGitSync(["rev-parse", `refs/tags/${tagName}`], tempRepoDir!);
+		// Peel annotated tags so every tag resolves to the commit it points to
+		const result = runGitSync(["rev-parse", `refs/tags/${tagName}^{commit}`], tempRepoDir!);
 		// Return null if empty string or invalid SHA (SHA should be exactly 40 chars)
 		if (!result || result.trim().length !== 40) {
 			return null;
@@ -145,6 +150,43 @@ async function createTestTag(tagName: string, commitSha?: string): Promise<void>
 	}
 }
 
+// Generates a throwaway GPG signing key and returns it ASCII-armored
+function generateGpgKey(passphrase: string): string {
+	const { execFileSync } = require("child_process");
+	const homeDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-action-gpg-"));
+	const gpgArgs = ["--homedir", homeDir, "--batch", "--pinentry-mode", "loopback", "--passphrase", passphrase];
+	try {
+		execFileSync("gpg", [...gpgArgs, "--quick-gen-key", "Release Bot <release@example.com>", "ed25519", "sign", "never"], { stdio: "pipe" });
+		return execFileSync("gpg", [...gpgArgs, "--armor", "--export-secret-keys"], { encoding: "utf-8" });
+	} finally {
+		execFileSync("gpgconf", ["--homedir", homeDir, "--kill", "gpg-agent"], { stdio: "pipe" });
+		fs.rmSync(homeDir, { recursive: true, force: true });
+	}
+}
+
+// Generates a throwaway unencrypted SSH signing key and returns the private key
+function generateSshKey(): string {
+	const { execFileSync } = require("child_process");
+	const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-action-ssh-"));
+	try {
+		execFileSync("ssh-keygen", ["-t", "ed25519", "-N", "", "-q", "-C", "release@example.com", "-f", path.join(keyDir, "key")], { stdio: "pipe" });
+		return fs.readFileSync(path.join(keyDir, "key"), "utf-8");
+	} finally {
+		fs.rmSync(keyDir, { recursive: true, force: true });
+	}
+}
+
+// Clones the remote without tags, like actions/checkout does by default, and returns the clone's directory
+function cloneWithoutTags(): string {
+	runGitSync(["push", "origin", "+HEAD:refs/heads/main"], tempRepoDir!);
+	const cloneDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-action-clone-"));
+	runGitSync(["clone", "--no-tags", "--branch", "main", remoteRepoDir!, cloneDir], os.tmpdir());
+	if (runGitSync(["rev-parse", "HEAD"], cloneDir).length !== 40) {
+		throw new Error(`Failed to clone ${remoteRepoDir} into ${cloneDir}`);
+	}
+	return cloneDir;
+}
+
 // Import the action run function (after mocks are set up)
 import { run as runAction } from "../index";
 
@@ -176,6 +218,11 @@ describe("Integration Tests", () => {
 			throw new Error(`Failed to create initial commit in temp repo. HEAD SHA: "${headSha}"`);
 		}
 
+		// Add a bare remote so remote tag queries work (pushes are mocked)
+		remoteRepoDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-action-remote-"));
+		runGitSync(["init", "--bare", remoteRepoDir], tempRepoDir);
+		runGitSync(["remote", "add", "origin", remoteRepoDir], tempRepoDir);
+
 		// Change to temp directory for tests
 		process.chdir(tempRepoDir);
 	});
@@ -188,12 +235,17 @@ describe("Integration Tests", () => {
 		if (tempRepoDir && fs.existsSync(tempRepoDir)) {
 			fs.rmSync(tempRepoDir, { recursive: true, force: true });
 		}
+		if (remoteRepoDir && fs.existsSync(remoteRepoDir)) {
+			fs.rmSync(remoteRepoDir, { recursive: true, force: true });
+		}
 	});
 
 	beforeEach(() => {
 		jest.clearAllMocks();
-		mockPushTag.mockClear();
+		mockPushTags.mockClear();
 		process.env = { ...originalEnv };
+		// Keep the job summary out of the summary of the workflow running the tests; Test 38 sets its own file
+		delete process.env.GITHUB_STEP_SUMMARY;
 		// Ensure we're in the temp repo for each test
 		if (tempRepoDir) {
 			process.chdir(tempRepoDir);
@@ -550,4 +602,922 @@ describe("Integration Tests", () => {
 
 		console.log("✅ Outputs correctly set: majorTag=v11, minorTag=v11.2");
 	});
+
+	test("Test 12: Downgrade protection skips the major tag for an older hotfix", async () => {
+		console.log("\n🔍 Test 12: Downgrade protection (skip)");
+
+		// Setup - v12.5.0 is already released, now publishing hotfix v12.4.9
+		await createTestTag("v12.5.0");
+		await createTestTag("v12.4.9");
+
+		process.env.INPUT_TAG = "v12.4.9";
+		process.env.INPUT_UPDATEMINOR = "true";
+
+		await runAction();
+
+		// Major line already has v12.5.0, so v12 must not be created; the v12.4 line is fine
+		expect(getTagSha("v12")).toBeNull();
+		expect(getTagSha("v12.4")).toBe(getTagSha("v12.4.9"));
+
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		const skipped = JSON.parse(skippedCall![1]);
+		expect(skipped).toHaveLength(1);
+		expect(skipped[0].tagName).toBe("v12");
+		expect(skipped[0].reason).toContain("v12.5.0");
+		expect(mockSetOutput).not.toHaveBeenCalledWith("majorTag", "v12");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v12.4");
+
+		console.log("✅ v12 left untouched, v12.4 updated to the hotfix");
+	});
+
+	test("Test 13: Downgrade protection fails with downgradePolicy=fail", async () => {
+		console.log("\n🔍 Test 13: Downgrade protection (fail)");
+
+		await createTestTag("v13.5.0");
+		await createTestTag("v13.4.9");
+
+		process.env.INPUT_TAG = "v13.4.9";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_DOWNGRADEPOLICY = "fail";
+
+		await expect(runAction()).rejects.toThrow("Refusing to move floating tags backwards");
+
+		// No tag is touched when failing
+		expect(getTagSha("v13")).toBeNull();
+		expect(getTagSha("v13.4")).toBeNull();
+
+		console.log("✅ Action failed without creating v13 or v13.4");
+	});
+
+	test("Test 14: downgradePolicy=allow moves the major tag backwards", async () => {
+		console.log("\n🔍 Test 14: Downgrade protection disabled");
+
+		await createTestTag("v14.5.0");
+		await createTestTag("v14.4.9");
+
+		process.env.INPUT_TAG = "v14.4.9";
+		process.env.INPUT_DOWNGRADEPOLICY = "allow";
+
+		await runAction();
+
+		expect(getTagSha("v14")).toBe(getTagSha("v14.4.9"));
+
+		console.log("✅ v14 moved to v14.4.9");
+	});
+
+	test("Test 15: Dry run reports the plan without touching tags", async () => {
+		console.log("\n🔍 Test 15: Dry run");
+
+		// Setup - v15 already exists on the remote but points to a newer, unrelated commit
+		await createTestTag("v15.0.0");
+		const sourceSha = getTagSha("v15.0.0");
+		runGitSync(["commit", "--allow-empty", "-m", "Commit for v15"], tempRepoDir!);
+		await createTestTag("v15");
+		runGitSync(["push", "origin", "refs/tags/v15"], tempRepoDir!);
+		runGitSync(["reset", "--hard", "HEAD~1"], tempRepoDir!);
+		const previousMajorSha = getTagSha("v15");
+		expect(previousMajorSha).not.toBe(sourceSha);
+
+		process.env.INPUT_TAG = "v15.0.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_DRYRUN = "true";
+
+		await runAction();
+
+		// Nothing was written or pushed
+		expect(getTagSha("v15")).toBe(previousMajorSha);
+		expect(getTagSha("v15.0")).toBeNull();
+		expect(mockPushTags).not.toHaveBeenCalled();
+
+		const planCall = mockSetOutput.mock.calls.find(([name]) => name === "plan");
+		const plan = JSON.parse(planCall![1]);
+		expect(plan).toEqual([
+			{ tagName: "v15", level: "major", sourceTag: "v15.0.0", currentSha: previousMajorSha, newSha: sourceSha, action: "update" },
+			{ tagName: "v15.0", level: "minor", sourceTag: "v15.0.0", currentSha: null, newSha: sourceSha, action: "create" },
+		]);
+
+		console.log("✅ Plan emitted, no tags created or pushed");
+	});
+
+	test("Test 16: Annotated floating tags with templated message", async () => {
+		console.log("\n🔍 Test 16: Annotated tags");
+
+		await createTestTag("v16.2.1");
+
+		process.env.INPUT_TAG = "v16.2.1";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_ANNOTATED = "true";
+		process.env.INPUT_TAGMESSAGE = "{tag} tracks {sourceTag} (version {version}, {major}.{minor})";
+
+		await runAction();
+
+		expect(runGitSync(["cat-file", "-t", "refs/tags/v16"])).toBe("tag");
+		expect(getTagSha("v16")).toBe(getTagSha("v16.2.1"));
+		expect(getTagSha("v16.2")).toBe(getTagSha("v16.2.1"));
+
+		expect(runGitSync(["tag", "-l", "--format=%(contents:subject)", "v16"])).toBe("v16 tracks v16.2.1 (version 16.2.1, 16.2)");
+		expect(runGitSync(["tag", "-l", "--format=%(contents:subject)", "v16.2"])).toBe("v16.2 tracks v16.2.1 (version 16.2.1, 16.2)");
+
+		// Default bot tagger is used regardless of the repository's user config
+		expect(runGitSync(["tag", "-l", "--format=%(taggername) %(taggeremail)", "v16"])).toBe("github-actions[bot] <41898282+github-actions[bot]@users.noreply.github.com>");
+
+		console.log("✅ v16 and v16.2 created as annotated tags");
+	});
+
+	test("Test 17: Unknown tagMessage placeholder fails before touching tags", async () => {
+		console.log("\n🔍 Test 17: Invalid tagMessage");
+
+		await createTestTag("v17.0.0");
+
+		process.env.INPUT_TAG = "v17.0.0";
+		process.env.INPUT_ANNOTATED = "true";
+		process.env.INPUT_TAGMESSAGE = "Release {release}";
+
+		await expect(runAction()).rejects.toThrow("Unknown placeholder {release} in tagMessage");
+		expect(getTagSha("v17")).toBeNull();
+
+		console.log("✅ Invalid placeholder rejected, no tag created");
+	});
+
+	// Key generation and signing can take several seconds on a busy runner, hence the longer timeouts of Tests 18 and 19
+	test("Test 18: GPG-signed floating tags", async () => {
+		console.log("\n🔍 Test 18: GPG signing");
+
+		await createTestTag("v18.0.0");
+
+		process.env.INPUT_TAG = "v18.0.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_SIGNINGFORMAT = "gpg";
+		process.env.INPUT_SIGNINGKEY = generateGpgKey("correct horse");
+		process.env.INPUT_SIGNINGKEYPASSPHRASE = "correct horse";
+
+		await runAction();
+
+		expect(getTagSha("v18")).toBe(getTagSha("v18.0.0"));
+		for (const tagName of ["v18", "v18.0"]) {
+			expect(runGitSync(["cat-file", "-t", `refs/tags/${tagName}`])).toBe("tag");
+			expect(runGitSync(["cat-file", "-p", `refs/tags/${tagName}`])).toContain("-----BEGIN PGP SIGNATURE-----");
+		}
+		expect(mockPushTags).toHaveBeenCalledTimes(1);
+		expect(mockPushTags.mock.calls[0][0].map((push: { tagName: string }) => push.tagName)).toEqual(["v18", "v18.0"]);
+
+		console.log("✅ v18 and v18.0 created as GPG-signed tags");
+	}, 30000);
+
+	test("Test 19: SSH-signed floating tags", async () => {
+		console.log("\n🔍 Test 19: SSH signing");
+
+		await createTestTag("v19.0.0");
+
+		process.env.INPUT_TAG = "v19.0.0";
+		process.env.INPUT_SIGNINGFORMAT = "ssh";
+		process.env.INPUT_SIGNINGKEY = generateSshKey();
+
+		await runAction();
+
+		expect(getTagSha("v19")).toBe(getTagSha("v19.0.0"));
+		expect(runGitSync(["cat-file", "-p", "refs/tags/v19"])).toContain("-----BEGIN SSH SIGNATURE-----");
+
+		console.log("✅ v19 created as an SSH-signed tag");
+	}, 30000);
+
+	test("Test 20: Invalid signing key fails before touching tags", async () => {
+		console.log("\n🔍 Test 20: Invalid signing key");
+
+		await createTestTag("v20.0.0");
+
+		process.env.INPUT_TAG = "v20.0.0";
+		process.env.INPUT_SIGNINGFORMAT = "gpg";
+		process.env.INPUT_SIGNINGKEY = "not a key";
+
+		await expect(runAction()).rejects.toThrow("Failed to import GPG signing key");
+		expect(getTagSha("v20")).toBeNull();
+
+		console.log("✅ Invalid key rejected, no tag created");
+	});
+
+	test("Test 21: Tags already correct on the remote are left unchanged", async () => {
+		console.log("\n🔍 Test 21: Remote-aware no-op");
+
+		// Setup - v21 is correct on the remote but missing locally (fresh checkout), v21.0 does not exist
+		await createTestTag("v21.0.0");
+		const sourceSha = getTagSha("v21.0.0");
+		runGitSync(["push", "origin", `${sourceSha}:refs/tags/v21`], tempRepoDir!);
+
+		process.env.INPUT_TAG = "v21.0.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+
+		await runAction();
+
+		const planCall = mockSetOutput.mock.calls.find(([name]) => name === "plan");
+		const plan = JSON.parse(planCall![1]);
+		expect(plan.map((entry: { tagName: string; action: string }) => [entry.tagName, entry.action])).toEqual([
+			["v21", "noop"],
+			["v21.0", "create"],
+		]);
+
+		// Only the minor tag is created and pushed
+		expect(getTagSha("v21")).toBeNull();
+		expect(getTagSha("v21.0")).toBe(sourceSha);
+		expect(mockPushTags).toHaveBeenCalledTimes(1);
+		expect(mockPushTags.mock.calls[0][0]).toEqual([{ tagName: "v21.0", expectedSha: null }]);
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v21");
+
+		console.log("✅ v21 left alone, only v21.0 pushed");
+	});
+
+	test("Test 22: levels with a custom latest tag", async () => {
+		console.log("\n🔍 Test 22: levels=major,minor,latest");
+
+		await createTestTag("v22.1.0");
+
+		process.env.INPUT_TAG = "v22.1.0";
+		process.env.INPUT_LEVELS = "major, minor, latest";
+		process.env.INPUT_LATESTTAG = "stable";
+
+		await runAction();
+
+		const tagSha = getTagSha("v22.1.0");
+		expect(getTagSha("v22")).toBe(tagSha);
+		expect(getTagSha("v22.1")).toBe(tagSha);
+		expect(getTagSha("stable")).toBe(tagSha);
+		expect(mockSetOutput).toHaveBeenCalledWith("latestTag", "stable");
+
+		console.log("✅ v22, v22.1 and stable created");
+	});
+
+	test("Test 23: latest only moves for the newest release overall", async () => {
+		console.log("\n🔍 Test 23: latest skipped for an older line");
+
+		// v23.0.0 is the newest release overall, on its own commit; v12.6.0 is a hotfix of an older major
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "23.0 release"], tempRepoDir!);
+		await createTestTag("v23.0.0", releaseSha);
+		await createTestTag("v12.6.0");
+
+		process.env.INPUT_TAG = "v23.0.0";
+		process.env.INPUT_LEVELS = "major,latest";
+		process.env.INPUT_LATESTTAG = "stable";
+		process.env.INPUT_DOWNGRADEPOLICY = "fail";
+
+		await runAction();
+		expect(getTagSha("stable")).toBe(releaseSha);
+
+		mockSetOutput.mockClear();
+		process.env.INPUT_TAG = "v12.6.0";
+		await runAction();
+
+		expect(getTagSha("v12")).toBe(getTagSha("v12.6.0"));
+		expect(getTagSha("stable")).toBe(releaseSha);
+
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		expect(JSON.parse(skippedCall![1])).toEqual([{ tagName: "stable", level: "latest", reason: "newer release v23.0.0 already exists" }]);
+
+		console.log("✅ v12 moved, stable left on v23.0.0");
+	});
+
+	test("Test 24: Invalid level is rejected", async () => {
+		console.log("\n🔍 Test 24: Invalid level");
+
+		process.env.INPUT_TAG = "v22.1.0";
+		process.env.INPUT_LEVELS = "major,build";
+
+		await expect(runAction()).rejects.toThrow('Invalid level "build" in levels');
+
+		console.log("✅ Invalid level rejected");
+	});
+
+	test("Test 25: Tag name templates", async () => {
+		console.log("\n🔍 Test 25: majorTemplate and minorTemplate");
+
+		await createTestTag("v25.1.0");
+
+		process.env.INPUT_TAG = "v25.1.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_MAJORTEMPLATE = "release/{major}.x";
+		process.env.INPUT_MINORTEMPLATE = "{major}.{minor}-latest";
+
+		await runAction();
+
+		const tagSha = getTagSha("v25.1.0");
+		expect(getTagSha("release/25.x")).toBe(tagSha);
+		expect(getTagSha("25.1-latest")).toBe(tagSha);
+		expect(getTagSha("v25")).toBeNull();
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "release/25.x");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "25.1-latest");
+
+		console.log("✅ release/25.x and 25.1-latest created");
+	});
+
+	test("Test 26: Invalid tag name templates are rejected", async () => {
+		console.log("\n🔍 Test 26: Invalid templates");
+
+		await createTestTag("v26.0.0");
+
+		process.env.INPUT_TAG = "v26.0.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_MINORTEMPLATE = "{prefix}{major}..{minor}";
+
+		await expect(runAction()).rejects.toThrow('Invalid minor tag name "v26..0"');
+		expect(getTagSha("v26")).toBeNull();
+
+		process.env.INPUT_MINORTEMPLATE = "{prefix}{major}";
+		await expect(runAction()).rejects.toThrow('The major and minor floating tags would both be named "v26"');
+
+		process.env.INPUT_MAJORTEMPLATE = "{prefix}{major}.{minor}";
+		await expect(runAction()).rejects.toThrow("Unknown placeholder {minor} in majorTemplate");
+		expect(getTagSha("v26")).toBeNull();
+
+		console.log("✅ Invalid templates rejected before any tag is created");
+	});
+
+	test("Test 27: Prerelease channel tags", async () => {
+		console.log("\n🔍 Test 27: prereleaseChannels");
+
+		await createTestTag("v27.3.0-rc.1");
+
+		process.env.INPUT_TAG = "v27.3.0-rc.1";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_PRERELEASECHANNELS = "alpha, beta, rc";
+
+		await runAction();
+
+		const tagSha = getTagSha("v27.3.0-rc.1");
+		expect(getTagSha("v27-rc")).toBe(tagSha);
+		expect(getTagSha("v27.3-rc")).toBe(tagSha);
+		expect(getTagSha("v27")).toBeNull();
+		expect(getTagSha("v27.3")).toBeNull();
+		expect(mockSetOutput).toHaveBeenCalledWith("channel", "rc");
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v27-rc");
+
+		console.log("✅ v27-rc and v27.3-rc created, stable tags untouched");
+	});
+
+	test("Test 28: Channel tags only follow their own channel", async () => {
+		console.log("\n🔍 Test 28: Channel downgrade protection");
+
+		// v27.3.0-rc.1 is newer in the rc channel of v27, and v27-rc already points to it
+		const rcSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "27.3 rc"], tempRepoDir!);
+		await createTestTag("v27.3.0-rc.1", rcSha);
+		runGitSync(["tag", "-f", "v27-rc", rcSha], tempRepoDir!);
+		await createTestTag("v27.2.1-pre.1");
+
+		process.env.INPUT_TAG = "v27.2.1-pre.1";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_PRERELEASECHANNELS = "rc, pre=rc";
+
+		await runAction();
+
+		expect(getTagSha("v27-rc")).toBe(rcSha);
+		expect(getTagSha("v27.2-rc")).toBe(getTagSha("v27.2.1-pre.1"));
+
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		expect(JSON.parse(skippedCall![1])).toEqual([{ tagName: "v27-rc", level: "major", reason: "newer rc prerelease v27.3.0-rc.1 already exists" }]);
+
+		// Channel prereleases never hold back the stable tags of the same line
+		await createTestTag("v27.2.0");
+		process.env.INPUT_TAG = "v27.2.0";
+		await runAction();
+
+		expect(getTagSha("v27")).toBe(getTagSha("v27.2.0"));
+		expect(getTagSha("v27.2")).toBe(getTagSha("v27.2.0"));
+
+		console.log("✅ v27.2-rc created, v27-rc left on v27.3.0-rc.1, v27 follows v27.2.0");
+	});
+
+	test("Test 29: Unknown prerelease channel", async () => {
+		console.log("\n🔍 Test 29: unknownChannelPolicy");
+
+		await createTestTag("v29.0.0-nightly.5");
+
+		process.env.INPUT_TAG = "v29.0.0-nightly.5";
+		process.env.INPUT_PRERELEASECHANNELS = "beta,rc";
+
+		await expect(runAction()).rejects.toThrow('Prerelease "nightly.5" of tag "v29.0.0-nightly.5" does not match any of the prereleaseChannels (beta, rc)');
+
+		process.env.INPUT_UNKNOWNCHANNELPOLICY = "ignore";
+		await runAction();
+
+		expect(mockSetFailed).toHaveBeenCalledTimes(1);
+		expect(getTagSha("v29")).toBeNull();
+		expect(getTagSha("v29-nightly")).toBeNull();
+
+		console.log("✅ Unknown channel rejected, then ignored");
+	});
+
+	test("Test 30: Package-scoped floating tags", async () => {
+		console.log("\n🔍 Test 30: scopeDelimiter @");
+
+		// A newer release of another package in the same major must not block this one
+		await createTestTag("web@30.9.0");
+		await createTestTag("api@30.4.2");
+
+		process.env.INPUT_TAG = "api@30.4.2";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_SCOPEDELIMITER = "@";
+
+		await runAction();
+
+		const tagSha = getTagSha("api@30.4.2");
+		expect(getTagSha("api@v30")).toBe(tagSha);
+		expect(getTagSha("api@v30.4")).toBe(tagSha);
+		expect(getTagSha("v30")).toBeNull();
+		expect(mockSetOutput).toHaveBeenCalledWith("scope", "api");
+		expect(mockSetOutput).toHaveBeenCalledWith("skippedTags", "[]");
+
+		console.log("✅ api@v30 and api@v30.4 created");
+	});
+
+	test("Test 31: Custom scope layout", async () => {
+		console.log("\n🔍 Test 31: scopeTemplate");
+
+		await createTestTag("web/v31.0.1");
+
+		process.env.INPUT_TAG = "web/v31.0.1";
+		process.env.INPUT_SCOPEDELIMITER = "/";
+		process.env.INPUT_SCOPETEMPLATE = "{tag}-{scope}";
+
+		await runAction();
+
+		expect(getTagSha("v31-web")).toBe(getTagSha("web/v31.0.1"));
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v31-web");
+
+		console.log("✅ v31-web created");
+	});
+
+	test("Test 32: Tag detected from a release event", async () => {
+		console.log("\n🔍 Test 32: No tag input, release event");
+
+		await createTestTag("v32.1.0");
+
+		delete process.env.INPUT_TAG;
+		process.env.GITHUB_EVENT_NAME = "release";
+		process.env.GITHUB_EVENT_PATH = path.join(__dirname, "fixtures", "events", "release-published.json");
+		process.env.GITHUB_REF = "refs/tags/v32.1.0";
+
+		await runAction();
+
+		expect(getTagSha("v32")).toBe(getTagSha("v32.1.0"));
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v32");
+
+		console.log("✅ v32 created from the release event");
+	});
+
+	test("Test 33: Reconcile mode plans every floating tag from the tag history", async () => {
+		console.log("\n🔍 Test 33: mode=reconcile (dry run)");
+
+		// v33.5.0 and its hotfix v33.4.9 are on separate commits; v33.5 already points to v33.5.0 on the remote
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "33.5 release"], tempRepoDir!);
+		const hotfixSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "33.4 hotfix"], tempRepoDir!);
+		await createTestTag("v33.5.0", releaseSha);
+		await createTestTag("v33.4.9", hotfixSha);
+		await createTestTag("v33.6.0-beta.1", releaseSha);
+		runGitSync(["push", "origin", `+${releaseSha}:refs/tags/v33.5`], tempRepoDir!);
+
+		delete process.env.INPUT_TAG;
+		process.env.INPUT_MODE = "reconcile";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "true";
+		process.env.INPUT_DRYRUN = "true";
+
+		await runAction();
+
+		expect(mockPushTags).not.toHaveBeenCalled();
+
+		const planCall = mockSetOutput.mock.calls.find(([name]) => name === "plan");
+		const plan: { tagName: string; sourceTag: string; currentSha: string | null; newSha: string; action: string }[] = JSON.parse(planCall![1]);
+		const entry = (tagName: string) => plan.find((planned) => planned.tagName === tagName);
+
+		// Each floating tag follows the highest release in its line
+		expect(entry("v33")).toMatchObject({ sourceTag: "v33.5.0", newSha: releaseSha, action: "create" });
+		expect(entry("v33.4")).toMatchObject({ sourceTag: "v33.4.9", newSha: hotfixSha, action: "create" });
+		expect(entry("v33.5")).toMatchObject({ sourceTag: "v33.5.0", currentSha: releaseSha, action: "noop" });
+		// Prereleases are ignored, like for a single release
+		expect(entry("v33.6")).toBeUndefined();
+
+		// Several tags per level, so only the plan reports them
+		expect(mockSetOutput).not.toHaveBeenCalledWith("majorTag", expect.anything());
+
+		console.log("✅ Reconcile plan covers the whole tag history");
+	});
+
+	test("Test 34: Verify mode reports drifted tags without writing", async () => {
+		console.log("\n🔍 Test 34: mode=verify");
+
+		// On the remote, v34.2 is correct, v34.1 points to the wrong release and v34 is missing
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "34.2 release"], tempRepoDir!);
+		const previousSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "34.1 release"], tempRepoDir!);
+		await createTestTag("v34.2.0", releaseSha);
+		await createTestTag("v34.1.0", previousSha);
+		runGitSync(["push", "origin", `+${releaseSha}:refs/tags/v34.2`, `+${releaseSha}:refs/tags/v34.1`], tempRepoDir!);
+
+		delete process.env.INPUT_TAG;
+		process.env.INPUT_MODE = "verify";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_IGNOREPRERELEASE = "true";
+
+		await expect(runAction()).rejects.toThrow(/floating tag\(s\) drifted from their expected release: .*v34/);
+		expect(mockPushTags).not.toHaveBeenCalled();
+
+		const driftCall = mockSetOutput.mock.calls.find(([name]) => name === "driftedTags");
+		const drifted: { tagName: string; sourceTag: string; expectedSha: string; actualSha: string | null }[] = JSON.parse(driftCall![1]);
+		expect(drifted.find((entry) => entry.tagName === "v34")).toEqual({ tagName: "v34", level: "major", sourceTag: "v34.2.0", expectedSha: releaseSha, actualSha: null });
+		expect(drifted.find((entry) => entry.tagName === "v34.1")).toEqual({ tagName: "v34.1", level: "minor", sourceTag: "v34.1.0", expectedSha: previousSha, actualSha: releaseSha });
+		expect(drifted.find((entry) => entry.tagName === "v34.2")).toBeUndefined();
+
+		console.log("✅ Drift reported, nothing written");
+	});
+
+	test("Test 35: Local tags are rolled back when the push fails", async () => {
+		console.log("\n🔍 Test 35: Rollback after a failed push");
+
+		await createTestTag("v35.1.0");
+		// v35 already exists locally on another commit, v35.1 does not exist yet
+		const previousSha = runGitSync(["commit-tree", "HEAD^{tree}", "-m", "previous release"], tempRepoDir!);
+		runGitSync(["tag", "v35", previousSha], tempRepoDir!);
+		mockPushTags.mockRejectedValueOnce(new Error("Failed to push tags v35, v35.1 (no tag was updated on the remote): connection reset"));
+
+		process.env.INPUT_TAG = "v35.1.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_RETRIES = "0";
+
+		await expect(runAction()).rejects.toThrow("connection reset");
+
+		expect(getTagSha("v35")).toBe(previousSha);
+		expect(getTagSha("v35.1")).toBeNull();
+		expect(mockWarning).toHaveBeenCalledWith("Update failed, rolling back floating tag(s): v35, v35.1");
+		expect(mockWarning).toHaveBeenCalledWith("No floating tag was changed on the remote");
+		expect(mockError).not.toHaveBeenCalledWith(expect.stringContaining("Could not roll back"));
+
+		console.log("✅ Local tags restored");
+	});
+
+	test("Test 36: Transient push failures are retried, permanent ones fail fast", async () => {
+		console.log("\n🔍 Test 36: retries / retryDelay");
+
+		await createTestTag("v36.0.0");
+		process.env.INPUT_TAG = "v36.0.0";
+		process.env.INPUT_RETRIES = "2";
+		process.env.INPUT_RETRYDELAY = "0";
+
+		mockPushTags.mockRejectedValueOnce(new Error("Failed to push tags v36 (no tag was updated on the remote): fatal: the remote end hung up unexpectedly"));
+		await runAction();
+		expect(mockPushTags).toHaveBeenCalledTimes(2);
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v36");
+		expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining("Pushing tags failed: Failed to push tags v36 (no tag was updated on the remote): fatal: the remote end hung up unexpectedly. Retrying in 0ms (retry 1 of 2)"));
+
+		mockPushTags.mockClear();
+		runGitSync(["tag", "-d", "v36"], tempRepoDir!);
+		mockPushTags.mockRejectedValueOnce(new Error("Failed to push tags v36 (no tag was updated on the remote): remote rejected: refs/tags/v36 [remote rejected] (protected tag hook declined)"));
+		await expect(runAction()).rejects.toThrow("protected tag hook declined");
+		expect(mockPushTags).toHaveBeenCalledTimes(1);
+
+		console.log("✅ Transient failure retried, protected tag rejection not retried");
+	});
+
+	test("Test 37: Commit, version components and results outputs", async () => {
+		console.log("\n🔍 Test 37: Rich outputs");
+
+		await createTestTag("v37.2.1");
+		const commitSha = getTagSha("v37.2.1");
+		// v37 already exists on the remote on another commit, v37.2 does not exist yet
+		const previousSha = runGitSync(["commit-tree", "HEAD^{tree}", "-m", "previous release"], tempRepoDir!);
+		runGitSync(["push", "origin", `+${previousSha}:refs/tags/v37`], tempRepoDir!);
+
+		process.env.INPUT_TAG = "v37.2.1";
+		process.env.INPUT_UPDATEMINOR = "true";
+
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("commitSha", commitSha);
+		expect(mockSetOutput).toHaveBeenCalledWith("major", 37);
+		expect(mockSetOutput).toHaveBeenCalledWith("minor", 2);
+		expect(mockSetOutput).toHaveBeenCalledWith("patch", 1);
+		expect(mockSetOutput).toHaveBeenCalledWith("prerelease", "");
+
+		const resultsCall = mockSetOutput.mock.calls.find(([name]) => name === "results");
+		expect(JSON.parse(resultsCall![1])).toEqual([
+			{ tagName: "v37", commitSha, created: false, updated: true, unchanged: false, previousSha },
+			{ tagName: "v37.2", commitSha, created: true, updated: false, unchanged: false, previousSha: null },
+		]);
+
+		console.log("✅ Rich outputs set");
+	});
+
+	test("Test 38: Job summary with the tag table and skipped tags", async () => {
+		console.log("\n🔍 Test 38: Job summary");
+
+		await createTestTag("v38.1.0");
+		await createTestTag("v38.0.4");
+		const commitSha = getTagSha("v38.0.4")!;
+		const summaryFile = path.join(tempRepoDir!, "..", `summary-${path.basename(tempRepoDir!)}.md`);
+		fs.writeFileSync(summaryFile, "");
+
+		process.env.GITHUB_STEP_SUMMARY = summaryFile;
+		process.env.GITHUB_SERVER_URL = "https://github.example.com";
+		process.env.GITHUB_REPOSITORY = "owner/repo";
+		process.env.INPUT_TAG = "v38.0.4";
+		process.env.INPUT_UPDATEMINOR = "true";
+
+		try {
+			await runAction();
+			const summary = fs.readFileSync(summaryFile, "utf8");
+
+			expect(summary).toContain("<h2>Floating tags for v38.0.4</h2>");
+			expect(summary).toContain(
+				`<tr><td><code>v38.0</code></td><td>minor</td><td>Created</td><td><em>none</em></td><td><a href="https://github.example.com/owner/repo/commit/${commitSha}"><code>${commitSha.substring(0, 7)}</code></a></td><td><code>v38.0.4</code></td></tr>`,
+			);
+			expect(summary).toContain("<h3>Skipped</h3>");
+			expect(summary).toContain("<li><code>v38</code> (major): newer release v38.1.0 already exists in the major line of v38.0.4</li>");
+		} finally {
+			fs.rmSync(summaryFile, { force: true });
+		}
+
+		console.log("✅ Job summary written");
+	});
+
+	test("Test 39: Calendar versioning", async () => {
+		console.log("\n🔍 Test 39: scheme calver");
+
+		await createTestTag("v39.04.1");
+		await createTestTag("v39.03.7");
+
+		process.env.INPUT_TAG = "v39.04.1";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_SCHEME = "calver";
+		process.env.INPUT_CALVERFORMAT = "YY.0M.MICRO";
+
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v39");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v39.04");
+		expect(mockSetOutput).toHaveBeenCalledWith("minor", "04");
+		expect(getTagSha("v39.04")).toBe(getTagSha("v39.04.1"));
+
+		// An older release of the same year does not move the year tag back
+		mockSetOutput.mockClear();
+		process.env.INPUT_TAG = "v39.03.7";
+		await runAction();
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		expect(JSON.parse(skippedCall![1])).toEqual([{ tagName: "v39", level: "major", reason: "newer release v39.04.1 already exists in the major line of v39.03.7" }]);
+
+		console.log("✅ CalVer floating tags created");
+	});
+
+	test("Test 40: Four-component versions", async () => {
+		console.log("\n🔍 Test 40: versionComponents 4 with a patch level");
+
+		await createTestTag("v40.1.2.3");
+		await createTestTag("v40.1.2.2");
+
+		process.env.INPUT_TAG = "v40.1.2.3";
+		process.env.INPUT_VERSIONCOMPONENTS = "4";
+		process.env.INPUT_LEVELS = "major,minor,patch";
+
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v40");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v40.1");
+		expect(mockSetOutput).toHaveBeenCalledWith("patchTag", "v40.1.2");
+		expect(getTagSha("v40.1.2")).toBe(getTagSha("v40.1.2.3"));
+
+		// The floating tags just created are not releases, so the older revision is only compared with v40.1.2.3
+		mockSetOutput.mockClear();
+		process.env.INPUT_TAG = "v40.1.2.2";
+		await runAction();
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		expect(JSON.parse(skippedCall![1]).map((entry: { tagName: string }) => entry.tagName)).toEqual(["v40", "v40.1", "v40.1.2"]);
+
+		// Two-component releases cannot have minor tags: they would be named like the releases
+		process.env.INPUT_TAG = "v40.2";
+		process.env.INPUT_VERSIONCOMPONENTS = "2";
+		await expect(runAction()).rejects.toThrow("The minor level needs versions with at least 3 components, but versions have 2");
+
+		// Without levels, two-component releases only maintain their major tag, even with updateMinor
+		delete process.env.INPUT_LEVELS;
+		process.env.INPUT_UPDATEMINOR = "true";
+		await createTestTag("v40.2");
+		mockSetOutput.mockClear();
+		await runAction();
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v40");
+		expect(mockSetOutput).not.toHaveBeenCalledWith("minorTag", expect.anything());
+
+		console.log("✅ Four-component floating tags created");
+	});
+
+	test("Test 41: Custom version pattern", async () => {
+		console.log("\n🔍 Test 41: versionPattern");
+
+		await createTestTag("build-20261019-41.2.3");
+
+		process.env.INPUT_TAG = "build-20261019-41.2.3";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_VERSIONPATTERN = "^build-\\d+-(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)$";
+
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v41");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v41.2");
+		expect(getTagSha("v41")).toBe(getTagSha("build-20261019-41.2.3"));
+
+		// A pattern without a patch group is rejected before any tag is read
+		process.env.INPUT_VERSIONPATTERN = "^build-\\d+-(?<major>\\d+)\\.(?<minor>\\d+)";
+		await expect(runAction()).rejects.toThrow("missing named group(s) (?<patch>...)");
+
+		console.log("✅ Floating tags created from the custom pattern");
+	});
+
+	test("Test 42: Prefix detected from the source tag", async () => {
+		console.log("\n🔍 Test 42: prefix auto");
+
+		await createTestTag("release-42.1.0");
+
+		process.env.INPUT_TAG = "release-42.1.0";
+		process.env.INPUT_UPDATEMINOR = "true";
+		process.env.INPUT_PREFIX = "auto";
+
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "release-42");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "release-42.1");
+		expect(getTagSha("release-42")).toBe(getTagSha("release-42.1.0"));
+		expect(getTagSha("v42")).toBeNull();
+
+		// v42.3.0 maintains v42, not release-42, so it does not hold back release-42.2.0
+		await createTestTag("v42.3.0");
+		await createTestTag("release-42.2.0");
+		process.env.INPUT_TAG = "release-42.2.0";
+		await runAction();
+
+		expect(getTagSha("release-42")).toBe(getTagSha("release-42.2.0"));
+		expect(getTagSha("release-42.2")).toBe(getTagSha("release-42.2.0"));
+		const skippedCall = mockSetOutput.mock.calls.filter(([name]) => name === "skippedTags").pop();
+		expect(JSON.parse(skippedCall![1])).toEqual([]);
+
+		console.log("✅ Floating tags keep the release- prefix, other prefixes have their own lines");
+	});
+
+	test("Test 43: Pre-1.0 releases", async () => {
+		console.log("\n🔍 Test 43: zeroMajorPolicy");
+
+		// v0 points to an earlier 0.x release; v0.43.0 is on another commit
+		const v0Sha = runGitSync(["commit-tree", "HEAD^{tree}", "-m", "0.42 release"], tempRepoDir!);
+		runGitSync(["tag", "-f", "v0", v0Sha], tempRepoDir!);
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-m", "0.43 release"], tempRepoDir!);
+		await createTestTag("v0.43.0", releaseSha);
+
+		process.env.INPUT_TAG = "v0.43.0";
+		process.env.INPUT_ZEROMAJORPOLICY = "minor-as-major";
+		await runAction();
+
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v0.43");
+		expect(mockSetOutput).not.toHaveBeenCalledWith("majorTag", expect.anything());
+		expect(getTagSha("v0.43")).toBe(releaseSha);
+		expect(getTagSha("v0")).toBe(v0Sha);
+
+		process.env.INPUT_ZEROMAJORPOLICY = "skip";
+		await runAction();
+		expect(getTagSha("v0")).toBe(v0Sha);
+
+		process.env.INPUT_ZEROMAJORPOLICY = "float";
+		await runAction();
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v0");
+		expect(getTagSha("v0")).toBe(releaseSha);
+
+		console.log("✅ v0 only moved with zeroMajorPolicy=float");
+	});
+
+	test("Test 44: Ancestry check", async () => {
+		console.log("\n🔍 Test 44: ancestryCheck");
+
+		// v44 points to HEAD on the remote; v44.1.0 is cut from an unrelated root commit, v44.2.0 from a child of HEAD
+		const headSha = runGitSync(["rev-parse", "HEAD"], tempRepoDir!);
+		const headSubject = runGitSync(["log", "-1", "--format=%s", "HEAD"], tempRepoDir!);
+		runGitSync(["push", "origin", `+${headSha}:refs/tags/v44`], tempRepoDir!);
+		const straySha = runGitSync(["commit-tree", "HEAD^{tree}", "-m", "stray release"], tempRepoDir!);
+		const nextSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "next release"], tempRepoDir!);
+		await createTestTag("v44.1.0", straySha);
+
+		process.env.INPUT_TAG = "v44.1.0";
+		process.env.INPUT_ANCESTRYCHECK = "fail";
+		await expect(runAction()).rejects.toThrow(
+			`Refusing to move floating tags to commits that do not descend from their current target (ancestryCheck=fail): v44 from ${headSha.substring(0, 7)} ("${headSubject}") to ${straySha.substring(0, 7)} ("stray release")`,
+		);
+		expect(getTagSha("v44")).toBeNull();
+
+		process.env.INPUT_ANCESTRYCHECK = "warn";
+		await runAction();
+		expect(mockWarning).toHaveBeenCalledWith(`Moving v44 from ${headSha.substring(0, 7)} ("${headSubject}") to ${straySha.substring(0, 7)} ("stray release"), which does not descend from it`);
+		expect(getTagSha("v44")).toBe(straySha);
+
+		// The remote still has v44 on HEAD (pushes are mocked): a descendant passes the check
+		await createTestTag("v44.2.0", nextSha);
+		process.env.INPUT_TAG = "v44.2.0";
+		process.env.INPUT_ANCESTRYCHECK = "fail";
+		await runAction();
+		expect(getTagSha("v44")).toBe(nextSha);
+
+		console.log("✅ Unrelated commit refused, descendant accepted");
+	});
+
+	test("Test 45: Downgrade protection sees releases that were not fetched", async () => {
+		console.log("\n🔍 Test 45: Downgrade protection against remote tags");
+
+		// v45.5.0 only exists on the remote, as in a checkout without tags
+		const headSha = runGitSync(["rev-parse", "HEAD"], tempRepoDir!);
+		runGitSync(["push", "origin", `+${headSha}:refs/tags/v45.5.0`], tempRepoDir!);
+		await createTestTag("v45.4.9");
+
+		process.env.INPUT_TAG = "v45.4.9";
+		process.env.INPUT_UPDATEMINOR = "true";
+
+		await runAction();
+
+		expect(gitTagExists("v45.5.0")).toBe(false);
+		expect(getTagSha("v45")).toBeNull();
+		expect(getTagSha("v45.4")).toBe(getTagSha("v45.4.9"));
+		const skippedCall = mockSetOutput.mock.calls.find(([name]) => name === "skippedTags");
+		expect(JSON.parse(skippedCall![1])).toEqual([{ tagName: "v45", level: "major", reason: "newer release v45.5.0 already exists in the major line of v45.4.9" }]);
+
+		console.log("✅ v45 left untouched because of the remote-only v45.5.0");
+	});
+
+	test("Test 46: Reconcile mode sees releases that were not fetched", async () => {
+		console.log("\n🔍 Test 46: mode=reconcile without local tags");
+
+		// v46.1.0 and v46.0.3 only exist on the remote
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "46.1 release"], tempRepoDir!);
+		const hotfixSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "46.0 hotfix"], tempRepoDir!);
+		runGitSync(["push", "origin", `+${releaseSha}:refs/tags/v46.1.0`, `+${hotfixSha}:refs/tags/v46.0.3`], tempRepoDir!);
+		const cloneDir = cloneWithoutTags();
+
+		try {
+			process.chdir(cloneDir);
+			process.env.INPUT_MODE = "reconcile";
+			process.env.INPUT_UPDATEMINOR = "true";
+			process.env.INPUT_DRYRUN = "true";
+
+			await runAction();
+
+			const planCall = mockSetOutput.mock.calls.find(([name]) => name === "plan");
+			const plan: { tagName: string; sourceTag: string; newSha: string; action: string }[] = JSON.parse(planCall![1]);
+			expect(plan.find((planned) => planned.tagName === "v46")).toMatchObject({ sourceTag: "v46.1.0", newSha: releaseSha, action: "create" });
+			expect(plan.find((planned) => planned.tagName === "v46.0")).toMatchObject({ sourceTag: "v46.0.3", newSha: hotfixSha, action: "create" });
+			expect(runGitSync(["tag", "--list"], cloneDir)).toBe("");
+		} finally {
+			process.chdir(tempRepoDir!);
+			fs.rmSync(cloneDir, { recursive: true, force: true });
+		}
+
+		console.log("✅ Reconcile plan built from the remote tags");
+	});
+
+	test("Test 47: Verify mode sees releases that were not fetched", async () => {
+		console.log("\n🔍 Test 47: mode=verify without local tags");
+
+		// Only the remote has the releases; v47 points to the older one, v47.2 is correct and v47.1 is missing
+		const releaseSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "47.2 release"], tempRepoDir!);
+		const previousSha = runGitSync(["commit-tree", "HEAD^{tree}", "-p", "HEAD", "-m", "47.1 release"], tempRepoDir!);
+		runGitSync(["push", "origin", `+${releaseSha}:refs/tags/v47.2.0`, `+${previousSha}:refs/tags/v47.1.0`, `+${previousSha}:refs/tags/v47`, `+${releaseSha}:refs/tags/v47.2`], tempRepoDir!);
+		const cloneDir = cloneWithoutTags();
+
+		try {
+			process.chdir(cloneDir);
+			process.env.INPUT_MODE = "verify";
+			process.env.INPUT_UPDATEMINOR = "true";
+
+			await expect(runAction()).rejects.toThrow(/floating tag\(s\) drifted from their expected release: .*v47/);
+
+			const driftCall = mockSetOutput.mock.calls.find(([name]) => name === "driftedTags");
+			const drifted: { tagName: string; sourceTag: string; expectedSha: string; actualSha: string | null }[] = JSON.parse(driftCall![1]);
+			expect(drifted.find((entry) => entry.tagName === "v47")).toEqual({ tagName: "v47", level: "major", sourceTag: "v47.2.0", expectedSha: releaseSha, actualSha: previousSha });
+			expect(drifted.find((entry) => entry.tagName === "v47.1")).toEqual({ tagName: "v47.1", level: "minor", sourceTag: "v47.1.0", expectedSha: previousSha, actualSha: null });
+			expect(drifted.find((entry) => entry.tagName === "v47.2")).toBeUndefined();
+		} finally {
+			process.chdir(tempRepoDir!);
+			fs.rmSync(cloneDir, { recursive: true, force: true });
+		}
+
+		console.log("✅ Drift reported from the remote tags");
+	});
+
+	test("Test 48: Default levels of four-component versions", async () => {
+		console.log("\n🔍 Test 48: versionComponents 4 without levels");
+
+		await createTestTag("v48.1.2.3");
+
+		process.env.INPUT_TAG = "v48.1.2.3";
+		process.env.INPUT_VERSIONCOMPONENTS = "4";
+
+		await runAction();
+
+		const tagSha = getTagSha("v48.1.2.3");
+		expect(mockSetOutput).toHaveBeenCalledWith("majorTag", "v48");
+		expect(mockSetOutput).toHaveBeenCalledWith("minorTag", "v48.1");
+		expect(mockSetOutput).toHaveBeenCalledWith("patchTag", "v48.1.2");
+		expect(getTagSha("v48")).toBe(tagSha);
+		expect(getTagSha("v48.1")).toBe(tagSha);
+		expect(getTagSha("v48.1.2")).toBe(tagSha);
+
+		console.log("✅ v48, v48.1 and v48.1.2 created without levels");
+	});
 });
@@ -0,0 +1,64 @@
+import { LeaseRejectedError } from '../git';
+import { Logger } from '../logger';
+import { isTransientError, withRetries } from '../retry';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe('isTransientError', () => {
+  it.each([
+    'Failed to fetch tags: fatal: unable to access \'https://github.com/o/r.git/\': Could not resolve host: github.com',
+    'Failed to push tags v1 (no tag was updated on the remote): fatal: the remote end hung up unexpectedly',
+    'Failed to read remote tags: error: RPC failed; HTTP 502 curl 22 The requested URL returned error: 502',
+    'Failed to push tags v1 (no tag was updated on the remote): remote rejected: refs/tags/v1 [remote rejected] (failed to lock)',
+    'GitHub API PATCH /git/refs/tags/v1 failed with status 503: Service Unavailable',
+    'GitHub API GET /git/matching-refs/tags/ failed with status 403: API rate limit exceeded',
+    'fetch failed',
+  ])('should retry "%s"', (message) => {
+    expect(isTransientError(new Error(message))).toBe(true);
+  });
+
+  it.each([
+    'Failed to push tags v1 (no tag was updated on the remote): fatal: Authentication failed for \'https://github.com/o/r.git/\'',
+    'Failed to push tags v1 (no tag was updated on the remote): remote: Permission to o/r.git denied to github-actions[bot].',
+    'Failed to push tags v1 (no tag was updated on the remote): remote rejected: refs/tags/v1 [remote rejected] (protected tag hook declined)',
+    'GitHub API POST /git/refs failed with status 422: Reference already exists',
+    'GitHub API GET /git/matching-refs/tags/ failed with status 401: Bad credentials',
+    'Failed to push tags v500 (no tag was updated on the remote): git push exited with code 1',
+  ])('should fail fast on "%s"', (message) => {
+    expect(isTransientError(new Error(message))).toBe(false);
+  });
+
+  it('should never retry a rejected lease', () => {
+    expect(isTransientError(new LeaseRejectedError('connection reset while pushing (stale info)', ['v1']))).toBe(false);
+  });
+});
+
+describe('withRetries', () => {
+  const logger = new Logger(false);
+  const options = { retries: 2, retryDelay: 0 };
+
+  it('should retry transient failures until the operation succeeds', async () => {
+    const operation = jest.fn().mockRejectedValueOnce(new Error('Connection reset by peer')).mockResolvedValue('done');
+
+    await expect(withRetries(operation, 'Pushing tags', options, logger)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('Connection reset by peer'));
+
+    await expect(withRetries(operation, 'Pushing tags', options, logger)).rejects.toThrow('Connection reset by peer');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry permanent failures', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('fatal: Authentication failed'));
+
+    await expect(withRetries(operation, 'Pushing tags', options, logger)).rejects.toThrow('Authentication failed');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
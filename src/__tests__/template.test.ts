@@ -0,0 +1,28 @@
+import { renderTemplate } from '../template';
+
+describe('renderTemplate', () => {
+  it('should replace placeholders with values', () => {
+    const result = renderTemplate('{tag} -> {sourceTag} ({sha})', { tag: 'v1', sourceTag: 'v1.2.3', sha: 'abc' }, 'tagMessage');
+    expect(result).toBe('v1 -> v1.2.3 (abc)');
+  });
+
+  it('should render numbers and repeated placeholders', () => {
+    const result = renderTemplate('{major}.{minor} / {major}', { major: 2, minor: 0 }, 'tagMessage');
+    expect(result).toBe('2.0 / 2');
+  });
+
+  it('should render missing optional values as empty', () => {
+    const result = renderTemplate('v1.2.3{prerelease}', { prerelease: undefined }, 'tagMessage');
+    expect(result).toBe('v1.2.3');
+  });
+
+  it('should leave text without placeholders untouched', () => {
+    expect(renderTemplate('Stable release', { tag: 'v1' }, 'tagMessage')).toBe('Stable release');
+  });
+
+  it('should throw for unknown placeholders', () => {
+    expect(() => renderTemplate('{tag} {release}', { tag: 'v1' }, 'tagMessage')).toThrow(
+      'Unknown placeholder {release} in tagMessage "{tag} {release}". Available placeholders: {tag}'
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { parseVersion, createTagName } from '../version';
+import { parseVersion, createTagName, tryParseVersion, compareVersions, findNewerVersion, formatVersion, getPrereleaseIdentifier, validateCalVerFormat, compileVersionPattern } from '../version';
 import { Logger } from '../logger';
 
 // Mock @actions/core
@@ -135,6 +135,179 @@ describe('parseVersion', () => {
   });
 });
 
+describe('parseVersion prefix detection', () => {
+  const logger = new Logger(false);
+
+  it('should record the text before the version', () => {
+    expect(parseVersion('refs/tags/release-5.1.0', logger).prefix).toBe('release-');
+    expect(parseVersion('v1.2.3', logger).prefix).toBe('v');
+    expect(parseVersion('1.2.3', logger).prefix).toBe('');
+  });
+
+  it('should not include the package scope', () => {
+    expect(parseVersion('web/v3.0.1', logger, '/').prefix).toBe('v');
+    expect(parseVersion('api@1.4.2', logger, '@').prefix).toBe('');
+  });
+});
+
+describe('parseVersion with a scope delimiter', () => {
+  const logger = new Logger(false);
+
+  it('should capture the package scope', () => {
+    const result = parseVersion('api@1.4.2', logger, '@');
+    expect(result.scope).toBe('api');
+    expect(result.major).toBe(1);
+    expect(result.minor).toBe(4);
+    expect(result.patch).toBe(2);
+  });
+
+  it('should strip the v prefix after the scope', () => {
+    const result = parseVersion('refs/tags/web/v3.0.1-rc.1', logger, '/');
+    expect(result.scope).toBe('web');
+    expect(result.major).toBe(3);
+    expect(result.prerelease).toBe('rc.1');
+  });
+
+  it('should allow the delimiter inside the scope', () => {
+    expect(parseVersion('@org/api@2.0.0', logger, '@').scope).toBe('@org/api');
+    expect(parseVersion('apps/web/v1.0.0', logger, '/').scope).toBe('apps/web');
+  });
+
+  it('should leave unscoped tags without a scope', () => {
+    expect(parseVersion('v1.2.3', logger, '@').scope).toBeUndefined();
+    expect(parseVersion('api@1.4.2', logger).scope).toBeUndefined();
+  });
+});
+
+describe('parseVersion with the calver scheme', () => {
+  const logger = new Logger(false);
+  const calver = (calverFormat: string) => ({ name: 'calver' as const, calverFormat, components: 3 });
+
+  it('should parse a full year format', () => {
+    const result = parseVersion('2026.10.3', logger, undefined, calver('YYYY.MM.MICRO'));
+    expect(result.major).toBe(2026);
+    expect(result.minor).toBe(10);
+    expect(result.patch).toBe(3);
+    expect(result.segments).toEqual(['2026', '10', '3']);
+  });
+
+  it('should keep the zero padding of the segments', () => {
+    const result = parseVersion('v24.04.1-rc.2', logger, undefined, calver('YY.0M.MICRO'));
+    expect(result.minor).toBe(4);
+    expect(result.segments).toEqual(['24', '04', '1']);
+    expect(result.prerelease).toBe('rc.2');
+    expect(formatVersion(result)).toBe('24.04.1-rc.2');
+  });
+
+  it('should support scoped tags', () => {
+    const result = parseVersion('api@v2026.1.0', logger, '@', calver('YYYY.MM.MICRO'));
+    expect(result.scope).toBe('api');
+    expect(result.major).toBe(2026);
+  });
+
+  it('should reject versions that do not fit the format', () => {
+    expect(() => parseVersion('v24.4.1', logger, undefined, calver('YY.0M.MICRO'))).toThrow('Invalid calendar version format: v24.4.1. Expected format: YY.0M.MICRO');
+    expect(() => parseVersion('2026.13.1', logger, undefined, calver('YYYY.MM.MICRO'))).toThrow('Invalid calendar version format');
+    expect(() => parseVersion('v1.2.3', logger, undefined, calver('YYYY.MM.MICRO'))).toThrow('Invalid calendar version format');
+    expect(tryParseVersion('v2026.10', undefined, calver('YYYY.MM.MICRO'))).toBeUndefined();
+  });
+
+  it('should order versions segment by segment', () => {
+    const v = (tag: string) => parseVersion(tag, logger, undefined, calver('YYYY.0M.MICRO'));
+    expect(compareVersions(v('2026.10.0'), v('2026.09.12'))).toBeGreaterThan(0);
+    expect(compareVersions(v('2027.01.0'), v('2026.12.5'))).toBeGreaterThan(0);
+    expect(compareVersions(v('2026.10.1-rc.1'), v('2026.10.1'))).toBeLessThan(0);
+  });
+
+  it('should validate the format', () => {
+    expect(() => validateCalVerFormat('YYYY.0M.MICRO')).not.toThrow();
+    expect(() => validateCalVerFormat('YYYY.MM')).toThrow('Invalid calverFormat "YYYY.MM". Expected 3 "."-separated tokens');
+    expect(() => validateCalVerFormat('YYYY.MONTH.MICRO')).toThrow('Invalid calverFormat');
+  });
+});
+
+describe('parseVersion with a component count', () => {
+  const logger = new Logger(false);
+  const components = (count: number) => ({ name: 'semver' as const, calverFormat: '', components: count });
+
+  it('should parse two-component versions', () => {
+    const result = parseVersion('v1.2', logger, undefined, components(2));
+    expect(result.major).toBe(1);
+    expect(result.minor).toBe(2);
+    expect(result.patch).toBe(0);
+    expect(result.segments).toEqual(['1', '2']);
+    expect(formatVersion(result)).toBe('1.2');
+  });
+
+  it('should parse four-component versions', () => {
+    const result = parseVersion('release-1.2.3.4-rc.1', logger, undefined, components(4));
+    expect(result.patch).toBe(3);
+    expect(result.revision).toBe(4);
+    expect(result.prerelease).toBe('rc.1');
+    expect(formatVersion(result)).toBe('1.2.3.4-rc.1');
+  });
+
+  it('should not read versions with another number of components', () => {
+    expect(() => parseVersion('v1.2.3', logger, undefined, components(4))).toThrow('Invalid semantic version format: v1.2.3. Expected format: v1.2.3.4 or 1.2.3.4');
+    expect(tryParseVersion('v1.2.3', undefined, components(2))).toBeUndefined();
+    expect(tryParseVersion('v1.2.3.4')).toBeUndefined();
+    expect(tryParseVersion('v1', undefined, components(2))).toBeUndefined();
+  });
+
+  it('should order four-component versions by revision', () => {
+    const v = (tag: string) => parseVersion(tag, logger, undefined, components(4));
+    expect(compareVersions(v('v1.2.3.10'), v('v1.2.3.9'))).toBeGreaterThan(0);
+    expect(compareVersions(v('v1.2.4.0'), v('v1.2.3.9'))).toBeGreaterThan(0);
+    expect(findNewerVersion(v('v1.2.3.1'), [v('v1.2.3.2'), v('v1.2.4.0')], 'patch')?.original).toBe('v1.2.3.2');
+    expect(findNewerVersion(v('v1.2.3.2'), [v('v1.2.3.2'), v('v1.2.4.0')], 'patch')).toBeUndefined();
+  });
+});
+
+describe('parseVersion with a version pattern', () => {
+  const logger = new Logger(false);
+  const semver = { name: 'semver' as const, calverFormat: '', components: 3 };
+  const withPattern = (source: string) => ({ ...semver, versionPattern: compileVersionPattern(source, semver) });
+
+  it('should use the named groups instead of the built-in parsing', () => {
+    const scheme = withPattern('^build-\\d+-(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)$');
+    const result = parseVersion('refs/tags/build-20261019-1.2.3', logger, undefined, scheme);
+    expect(result.major).toBe(1);
+    expect(result.minor).toBe(2);
+    expect(result.patch).toBe(3);
+    expect(result.original).toBe('refs/tags/build-20261019-1.2.3');
+    expect(result.prefix).toBe('build-20261019-');
+  });
+
+  it('should capture the optional groups', () => {
+    const scheme = withPattern('^(?<scope>[a-z]+)/v(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)(?:-(?<prerelease>rc\\.\\d+))?-linux-x64$');
+    const stable = parseVersion('api/v1.2.3-linux-x64', logger, undefined, scheme);
+    expect(stable.scope).toBe('api');
+    expect(stable.prefix).toBe('/v');
+    expect(stable.isPrerelease).toBe(false);
+    expect(stable.prerelease).toBeUndefined();
+    expect(parseVersion('api/v1.2.3-rc.1-linux-x64', logger, undefined, scheme).prerelease).toBe('rc.1');
+  });
+
+  it('should explain what was matched when a tag is not a version', () => {
+    const scheme = withPattern('v(?<major>\\d+)\\.(?<minor>\\w+)\\.(?<patch>\\d+)');
+    expect(() => parseVersion('v1.2.3', logger, undefined, withPattern('^release-(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)$'))).toThrow(
+      'Tag "v1.2.3" does not match versionPattern /^release-(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)$/'
+    );
+    expect(() => parseVersion('v1.x.3', logger, undefined, scheme)).toThrow(
+      'versionPattern /v(?<major>\\d+)\\.(?<minor>\\w+)\\.(?<patch>\\d+)/ matched "v1.x.3" in tag "v1.x.3", but group "minor" is not a number (major="1", minor="x", patch="3")'
+    );
+    expect(tryParseVersion('v1.x.3', undefined, scheme)).toBeUndefined();
+  });
+
+  it('should validate the pattern', () => {
+    expect(() => compileVersionPattern('(?<major>\\d+', semver)).toThrow('Invalid versionPattern "(?<major>\\d+": ');
+    expect(() => compileVersionPattern('(?<major>\\d+)\\.(?<minor>\\d+)', semver)).toThrow(
+      'Invalid versionPattern "(?<major>\\d+)\\.(?<minor>\\d+)": missing named group(s) (?<patch>...). Optional groups: prerelease, build, scope'
+    );
+    expect(() => compileVersionPattern('(?<major>\\d+)\\.(?<minor>\\d+)', { ...semver, components: 2 })).not.toThrow();
+  });
+});
+
 describe('createTagName', () => {
   it('should create major tag with default prefix', () => {
     const result = createTagName('v', 2);
@@ -169,3 +342,83 @@ describe('createTagName', () => {
   });
 });
 
+
+describe('tryParseVersion', () => {
+  it('should parse version tags', () => {
+    const result = tryParseVersion('v1.2.3');
+    expect(result?.major).toBe(1);
+    expect(result?.minor).toBe(2);
+    expect(result?.patch).toBe(3);
+  });
+
+  it('should return undefined for floating tags', () => {
+    expect(tryParseVersion('v1')).toBeUndefined();
+    expect(tryParseVersion('v1.2')).toBeUndefined();
+  });
+});
+
+describe('compareVersions', () => {
+  const v = (tag: string) => parseVersion(tag, new Logger(false));
+
+  it('should order by major, minor, then patch', () => {
+    expect(compareVersions(v('v2.0.0'), v('v1.9.9'))).toBeGreaterThan(0);
+    expect(compareVersions(v('v1.5.0'), v('v1.4.9'))).toBeGreaterThan(0);
+    expect(compareVersions(v('v1.4.9'), v('v1.4.10'))).toBeLessThan(0);
+    expect(compareVersions(v('v1.2.3'), v('1.2.3'))).toBe(0);
+  });
+
+  it('should rank prereleases below the release', () => {
+    expect(compareVersions(v('v1.0.0-rc.1'), v('v1.0.0'))).toBeLessThan(0);
+    expect(compareVersions(v('v1.0.0'), v('v1.0.0-rc.1'))).toBeGreaterThan(0);
+  });
+
+  it('should compare prerelease identifiers using semver precedence', () => {
+    expect(compareVersions(v('v1.0.0-alpha'), v('v1.0.0-alpha.1'))).toBeLessThan(0);
+    expect(compareVersions(v('v1.0.0-alpha.1'), v('v1.0.0-alpha.beta'))).toBeLessThan(0);
+    expect(compareVersions(v('v1.0.0-beta.2'), v('v1.0.0-beta.11'))).toBeLessThan(0);
+    expect(compareVersions(v('v1.0.0-beta'), v('v1.0.0-rc.1'))).toBeLessThan(0);
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compareVersions(v('v1.0.0+build.1'), v('v1.0.0+build.2'))).toBe(0);
+  });
+});
+
+describe('findNewerVersion', () => {
+  const v = (tag: string) => parseVersion(tag, new Logger(false));
+  const existing = [v('v1.4.8'), v('v1.5.0'), v('v2.0.0')];
+
+  it('should find a newer release in the major line', () => {
+    expect(findNewerVersion(v('v1.4.9'), existing)?.original).toBe('v1.5.0');
+  });
+
+  it('should not find a newer release in the minor line for a hotfix', () => {
+    expect(findNewerVersion(v('v1.4.9'), existing, 'minor')).toBeUndefined();
+  });
+
+  it('should return undefined for the highest release', () => {
+    expect(findNewerVersion(v('v1.5.1'), existing)).toBeUndefined();
+    expect(findNewerVersion(v('v1.5.0'), existing)).toBeUndefined();
+  });
+
+  it('should compare across all majors for the latest tag', () => {
+    expect(findNewerVersion(v('v1.5.1'), existing, 'latest')?.original).toBe('v2.0.0');
+    expect(findNewerVersion(v('v2.0.1'), existing, 'latest')).toBeUndefined();
+  });
+});
+
+describe('getPrereleaseIdentifier', () => {
+  const v = (tag: string) => parseVersion(tag, new Logger(false));
+
+  it('should return the first prerelease identifier without its number', () => {
+    expect(getPrereleaseIdentifier(v('v2.3.0-rc.1'))).toBe('rc');
+    expect(getPrereleaseIdentifier(v('v2.3.0-beta'))).toBe('beta');
+    expect(getPrereleaseIdentifier(v('v2.3.0-RC1'))).toBe('rc');
+    expect(getPrereleaseIdentifier(v('v2.3.0-alpha-2.x'))).toBe('alpha');
+  });
+
+  it('should return undefined without an alphabetic identifier', () => {
+    expect(getPrereleaseIdentifier(v('v2.3.0'))).toBeUndefined();
+    expect(getPrereleaseIdentifier(v('v2.3.0-0.3'))).toBeUndefined();
+  });
+});
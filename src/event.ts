@@ -0,0 +1,73 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import { Logger } from "./logger";
+
+/**
+ * Subset of the webhook payloads that can carry the released tag
+ */
+interface EventPayload {
+	ref?: string;
+	release?: { tag_name?: string };
+	inputs?: { tag?: string };
+}
+
+/**
+ * Returns the tag name of a refs/tags/ ref, or undefined for branches and other refs
+ */
+function tagFromRef(ref: string | undefined): string | undefined {
+	return ref?.startsWith("refs/tags/") ? ref.substring("refs/tags/".length) : undefined;
+}
+
+/**
+ * Reads the event payload the workflow was triggered with (GITHUB_EVENT_PATH)
+ */
+function readEventPayload(logger: Logger): EventPayload {
+	const eventPath = process.env.GITHUB_EVENT_PATH;
+	if (!eventPath || !fs.existsSync(eventPath)) {
+		logger.debug("No event payload available (GITHUB_EVENT_PATH is not set)");
+		return {};
+	}
+
+	logger.debug(`Reading event payload from ${eventPath}`);
+	try {
+		return JSON.parse(fs.readFileSync(eventPath, "utf8")) as EventPayload;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		throw new Error(`Failed to read event payload from ${eventPath}: ${message}`);
+	}
+}
+
+/**
+ * Derives the version tag from the event that triggered the workflow
+ * Supports tag pushes, published releases and workflow_dispatch runs with a "tag" input (or started on a tag)
+ */
+export function detectTag(logger: Logger): string {
+	const eventName = process.env.GITHUB_EVENT_NAME || "";
+	const payload = readEventPayload(logger);
+	const ref = process.env.GITHUB_REF || payload.ref;
+	logger.debug(`Detecting tag from event "${eventName}" (ref: ${ref || "none"})`);
+
+	let tag: string | undefined;
+	switch (eventName) {
+		case "release":
+			tag = payload.release?.tag_name;
+			break;
+		case "workflow_dispatch":
+			tag = payload.inputs?.tag || tagFromRef(ref);
+			break;
+		case "push":
+			tag = tagFromRef(ref);
+			break;
+		default:
+			throw new Error(
+				`The tag input is required for "${eventName || "unknown"}" events. Set it explicitly, or run the action on a tag push, a published release or a workflow_dispatch with a "tag" input`,
+			);
+	}
+
+	if (!tag) {
+		throw new Error(`Could not detect a tag from the "${eventName}" event (ref: ${ref || "none"}). Set the tag input explicitly`);
+	}
+
+	core.info(`Detected tag "${tag}" from the ${eventName} event`);
+	return tag;
+}
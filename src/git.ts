@@ -1,9 +1,23 @@
 import * as core from "@actions/core";
 import { exec } from "@actions/exec";
 import * as path from "path";
-import { TagOperationResult } from "./types";
+import { RemoteTag, SigningConfig, TagAnnotation, TagOperationResult, TagPush, TagRestore } from "./types";
 import { Logger } from "./logger";
 
+/**
+ * Raised when the remote rejects a push because a floating tag no longer has the value it was expected to have
+ * (another workflow moved it after the action read the remote state)
+ */
+export class LeaseRejectedError extends Error {
+	constructor(
+		message: string,
+		public readonly tagNames: string[],
+	) {
+		super(message);
+		this.name = "LeaseRejectedError";
+	}
+}
+
 /**
  * Gets the working directory for git commands
  * Uses GIT_WORKING_DIRECTORY env var if set (for tests), otherwise uses process.cwd()
@@ -17,6 +31,7 @@ function getGitWorkingDirectory(): string {
 
 /**
  * Gets the commit SHA for a given reference (tag, branch, or SHA)
+ * Annotated tags are peeled to the commit they point to
  */
 export async function getCommitSha(ref: string, logger: Logger): Promise<string> {
 	core.info(`Resolving commit SHA for reference: ${ref}`);
@@ -35,7 +50,7 @@ export async function getCommitSha(ref: string, logger: Logger): Promise<string>
 	};
 
 	try {
-		await exec("git", ["rev-parse", ref], options);
+		await exec("git", ["rev-parse", `${ref}^{commit}`], options);
 		const sha = output.trim();
 
 		if (!sha || sha.length !== 40) {
@@ -73,83 +88,451 @@ export async function tagExists(tagName: string, logger: Logger): Promise<boolea
 	}
 }
 
+/**
+ * Checks whether a tag name is a valid git ref name (git check-ref-format)
+ */
+export async function isValidTagName(tagName: string, logger: Logger): Promise<boolean> {
+	logger.debug(`Validating tag name: ${tagName}`);
+
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["check-ref-format", `refs/tags/${tagName}`], {
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+	return exitCode === 0;
+}
+
+/**
+ * Gets the commit SHA a local tag currently points to (annotated tags are peeled)
+ * Returns undefined if the tag does not exist
+ */
+export async function getTagSha(tagName: string, logger: Logger): Promise<string | undefined> {
+	logger.debug(`Reading current target of tag: ${tagName}`);
+
+	let output = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["rev-parse", "--verify", "--quiet", `refs/tags/${tagName}^{commit}`], {
+		listeners: {
+			stdout: (data: Buffer) => {
+				output += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	const sha = output.trim();
+	return exitCode === 0 && sha ? sha : undefined;
+}
+
+/**
+ * Gets the object a local tag points to (the tag object for annotated tags, without peeling)
+ * Returns undefined if the tag does not exist
+ */
+export async function getTagObjectSha(tagName: string, logger: Logger): Promise<string | undefined> {
+	logger.debug(`Reading object of local tag: ${tagName}`);
+
+	let output = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["rev-parse", "--verify", "--quiet", `refs/tags/${tagName}`], {
+		listeners: {
+			stdout: (data: Buffer) => {
+				output += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	const sha = output.trim();
+	return exitCode === 0 && sha ? sha : undefined;
+}
+
+/**
+ * Points a local tag back to a previous object, or deletes it when it did not exist before
+ */
+export async function restoreTag(tagName: string, objectSha: string | null, logger: Logger): Promise<void> {
+	const ref = `refs/tags/${tagName}`;
+	const args = objectSha ? ["update-ref", "--no-deref", ref, objectSha] : ["update-ref", "--no-deref", "-d", ref];
+	logger.debug(`Executing: git ${args.join(" ")}`);
+
+	try {
+		const cwd = getGitWorkingDirectory();
+		await exec("git", args, {
+			silent: !logger.verbose,
+			cwd,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		throw new Error(`Failed to restore local tag ${tagName}: ${message}`);
+	}
+}
+
+/**
+ * Points a remote tag back to its previous object, or deletes it when the update created it
+ * Pushed with --force-with-lease so a tag another workflow moved since the update is left alone
+ */
+export async function restoreRemoteTag(restore: TagRestore, logger: Logger): Promise<void> {
+	const ref = `refs/tags/${restore.tagName}`;
+	const args = ["push", "--porcelain", `--force-with-lease=${ref}:${restore.expectedSha}`, "origin", `${restore.previousSha ?? ""}:${ref}`];
+	logger.debug(`Executing: git ${args.join(" ")}`);
+
+	let stdout = "";
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", args, {
+		listeners: {
+			stdout: (data: Buffer) => {
+				stdout += data.toString();
+			},
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: !logger.verbose,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	if (exitCode !== 0) {
+		const rejected = stdout.split("\n").find((line) => line.startsWith("!"));
+		const details = rejected ? `remote rejected: ${rejected.split("\t")[2]?.trim() ?? rejected}` : stderr.trim() || `git push exited with code ${exitCode}`;
+		throw new Error(`Failed to restore remote tag ${restore.tagName}: ${details}`);
+	}
+}
+
+/**
+ * Reads the current state of the given tags on the remote
+ * Tags that do not exist on the remote are absent from the result
+ */
+export async function getRemoteTags(tagNames: string[], logger: Logger): Promise<Map<string, RemoteTag>> {
+	const remoteTags = new Map<string, RemoteTag>();
+	if (tagNames.length === 0) {
+		return remoteTags;
+	}
+
+	logger.debug(`Reading remote state of tag(s): ${tagNames.join(", ")}`);
+
+	let output = "";
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	// Patterns must name the peeled "^{}" refs explicitly, otherwise git omits them
+	const patterns = tagNames.flatMap((tagName) => [`refs/tags/${tagName}`, `refs/tags/${tagName}^{}`]);
+	const exitCode = await exec("git", ["ls-remote", "--tags", "origin", ...patterns], {
+		listeners: {
+			stdout: (data: Buffer) => {
+				output += data.toString();
+			},
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	if (exitCode !== 0) {
+		throw new Error(`Failed to read remote tags: ${stderr.trim() || `git ls-remote exited with code ${exitCode}`}`);
+	}
+
+	// Annotated tags are listed twice: the tag object, then the commit it peels to ("^{}" suffix)
+	for (const line of output.split("\n")) {
+		const [sha, ref] = line.trim().split(/\s+/);
+		if (!sha || !ref) {
+			continue;
+		}
+		const peeled = ref.endsWith("^{}");
+		const tagName = ref.replace(/^refs\/tags\//, "").replace(/\^\{\}$/, "");
+		if (!tagNames.includes(tagName)) {
+			continue;
+		}
+		const existing = remoteTags.get(tagName);
+		if (peeled) {
+			remoteTags.set(tagName, { objectSha: existing?.objectSha ?? sha, commitSha: sha });
+		} else {
+			remoteTags.set(tagName, { objectSha: sha, commitSha: existing?.commitSha ?? sha });
+		}
+	}
+
+	for (const [tagName, remoteTag] of remoteTags) {
+		logger.debug(`  remote ${tagName} -> ${remoteTag.commitSha}`);
+	}
+	return remoteTags;
+}
+
+/**
+ * Checks whether a commit is an ancestor of (or the same as) another commit (git merge-base --is-ancestor)
+ * Throws when git cannot tell, e.g. because a commit is missing from a shallow clone
+ */
+export async function isAncestor(ancestorSha: string, commitSha: string, logger: Logger): Promise<boolean> {
+	logger.debug(`Checking whether ${ancestorSha} is an ancestor of ${commitSha}`);
+
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["merge-base", "--is-ancestor", ancestorSha, commitSha], {
+		listeners: {
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	// Exit code 1 means "not an ancestor"; anything else is an error
+	if (exitCode !== 0 && exitCode !== 1) {
+		throw new Error(`Failed to check whether ${ancestorSha.substring(0, 7)} is an ancestor of ${commitSha.substring(0, 7)}: ${stderr.trim() || `git merge-base exited with code ${exitCode}`}`);
+	}
+	return exitCode === 0;
+}
+
+/**
+ * Gets the subject (first line of the message) of a commit
+ * Returns undefined if the commit is not available locally
+ */
+export async function getCommitSubject(commitSha: string, logger: Logger): Promise<string | undefined> {
+	logger.debug(`Reading subject of commit: ${commitSha}`);
+
+	let output = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["log", "-1", "--format=%s", commitSha], {
+		listeners: {
+			stdout: (data: Buffer) => {
+				output += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	return exitCode === 0 ? output.trim() : undefined;
+}
+
+/**
+ * Fetches all tags from the remote, overwriting local tags that differ
+ */
+export async function fetchTags(logger: Logger): Promise<void> {
+	core.info("Fetching tags from remote");
+
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["fetch", "--tags", "--force", "origin"], {
+		listeners: {
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: !logger.verbose,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	// The error carries git's stderr so transient network failures can be told apart from permanent ones
+	if (exitCode !== 0) {
+		throw new Error(`Failed to fetch tags: ${stderr.trim() || `git fetch exited with code ${exitCode}`}`);
+	}
+}
+
+/**
+ * Lists all tag names in the local repository
+ */
+export async function listTags(logger: Logger): Promise<string[]> {
+	logger.debug("Listing local tags");
+
+	let output = "";
+	const cwd = getGitWorkingDirectory();
+	try {
+		await exec("git", ["tag", "--list"], {
+			listeners: {
+				stdout: (data: Buffer) => {
+					output += data.toString();
+				},
+			},
+			silent: true,
+			cwd,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		throw new Error(`Failed to list tags: ${message}`);
+	}
+
+	const tags = output.split("\n").map((line) => line.trim()).filter(Boolean);
+	logger.debug(`Found ${tags.length} local tag(s)`);
+	return tags;
+}
+
+/**
+ * Lists all tag names on the remote (git ls-remote), including tags that were not fetched
+ */
+export async function listRemoteTags(logger: Logger): Promise<string[]> {
+	logger.debug("Listing remote tags");
+
+	let output = "";
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", ["ls-remote", "--tags", "--refs", "origin"], {
+		listeners: {
+			stdout: (data: Buffer) => {
+				output += data.toString();
+			},
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: true,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	if (exitCode !== 0) {
+		throw new Error(`Failed to list remote tags: ${stderr.trim() || `git ls-remote exited with code ${exitCode}`}`);
+	}
+
+	const tags = output
+		.split("\n")
+		.map((line) => line.trim().split(/\s+/)[1])
+		.filter((ref): ref is string => Boolean(ref))
+		.map((ref) => ref.replace(/^refs\/tags\//, ""));
+	logger.debug(`Found ${tags.length} remote tag(s)`);
+	return tags;
+}
+
 /**
  * Creates or updates a git tag
+ * Creates an annotated tag when an annotation is given, otherwise a lightweight tag
+ * Annotated tags are signed when a signing config is given
  */
-export async function createOrUpdateTag(tagName: string, commitSha: string, logger: Logger): Promise<TagOperationResult> {
+export async function createOrUpdateTag(tagName: string, commitSha: string, logger: Logger, annotation?: TagAnnotation, signing?: SigningConfig): Promise<TagOperationResult> {
 	const exists = await tagExists(tagName, logger);
+	const kind = signing ? "signed tag" : annotation ? "annotated tag" : "tag";
 
+	const args = [...(signing?.gitConfig ?? []), "tag"];
 	if (exists) {
-		core.info(`Updating existing tag: ${tagName} -> ${commitSha.substring(0, 7)}`);
+		core.info(`Updating existing ${kind}: ${tagName} -> ${commitSha.substring(0, 7)}`);
 		if (logger.verbose) {
 			core.info(`  → Using git tag -f to force update tag ${tagName}`);
 		}
 		logger.debug(`Using git tag -f to force update tag ${tagName}`);
 
 		// Force update existing tag
-		const cwd = getGitWorkingDirectory();
-		await exec("git", ["tag", "-f", tagName, commitSha], {
-			silent: !logger.verbose,
-			cwd,
-		});
-
-		return {
-			tagName,
-			commitSha,
-			created: false,
-			updated: true,
-		};
+		args.push("-f");
 	} else {
-		core.info(`Creating new tag: ${tagName} -> ${commitSha.substring(0, 7)}`);
+		core.info(`Creating new ${kind}: ${tagName} -> ${commitSha.substring(0, 7)}`);
 		if (logger.verbose) {
 			core.info(`  → Using git tag to create new tag ${tagName}`);
 		}
 		logger.debug(`Using git tag to create new tag ${tagName}`);
+	}
 
-		// Create new tag
-		const cwd = getGitWorkingDirectory();
-		await exec("git", ["tag", tagName, commitSha], {
-			silent: !logger.verbose,
-			cwd,
-		});
-
-		return {
-			tagName,
-			commitSha,
-			created: true,
-			updated: false,
+	// The tagger identity of an annotated tag comes from the committer environment variables,
+	// so this works on runners without user.name/user.email configured
+	let env: { [key: string]: string } | undefined;
+	if (annotation) {
+		args.push(signing ? "-s" : "-a", "-m", annotation.message);
+		env = {
+			...(process.env as { [key: string]: string }),
+			GIT_COMMITTER_NAME: annotation.taggerName,
+			GIT_COMMITTER_EMAIL: annotation.taggerEmail,
 		};
+		logger.debug(`Tagger: ${annotation.taggerName} <${annotation.taggerEmail}>`);
+		logger.debug(`Tag message: ${annotation.message}`);
 	}
+	args.push(tagName, commitSha);
+
+	const cwd = getGitWorkingDirectory();
+	await exec("git", args, {
+		silent: !logger.verbose,
+		cwd,
+		env,
+	});
+
+	return {
+		tagName,
+		commitSha,
+		created: !exists,
+		updated: exists,
+		unchanged: false,
+	};
 }
 
 /**
- * Pushes a tag to the remote repository
+ * Pushes tags to the remote repository in a single atomic transaction
+ * Either every tag is updated on the remote or none is
+ * Tags with an expected SHA are pushed with --force-with-lease so a concurrent change on the remote is not overwritten
  */
-export async function pushTag(tagName: string, force: boolean, logger: Logger): Promise<void> {
-	const action = force ? "force pushing" : "pushing";
-	core.info(`${action} tag ${tagName} to remote`);
+export async function pushTags(pushes: TagPush[], logger: Logger): Promise<void> {
+	if (pushes.length === 0) {
+		logger.debug("No tags to push");
+		return;
+	}
 
-	const args = ["push", "origin", tagName];
-	if (force) {
-		args.push("--force");
+	const tagNames = pushes.map((push) => push.tagName).join(", ");
+	core.info(`Pushing ${pushes.length} tag(s) to remote atomically: ${tagNames}`);
+
+	const leases: string[] = [];
+	const refspecs: string[] = [];
+	for (const push of pushes) {
+		const ref = `refs/tags/${push.tagName}`;
+		if (push.expectedSha === undefined) {
+			refspecs.push(`+${ref}:${ref}`);
+		} else {
+			// An empty expectation means the tag must not exist on the remote yet
+			leases.push(`--force-with-lease=${ref}:${push.expectedSha ?? ""}`);
+			refspecs.push(`${ref}:${ref}`);
+		}
 	}
+	const args = ["push", "--atomic", "--porcelain", ...leases, "origin", ...refspecs];
 
-	if (logger["verbose"]) { // Access private verbose property for special formatting
+	if (logger.verbose) {
 		core.info(`  → Executing: git ${args.join(" ")}`);
 	}
 	logger.debug(`Executing: git ${args.join(" ")}`);
 
-	try {
-		const cwd = getGitWorkingDirectory();
-		await exec("git", args, {
-			silent: !logger.verbose,
-			cwd,
-		});
-		core.info(`Successfully pushed tag ${tagName} to remote`);
-	} catch (error) {
-		const message = error instanceof Error ? error.message : "Unknown error occurred";
-		throw new Error(`Failed to push tag ${tagName}: ${message}`);
+	let stdout = "";
+	let stderr = "";
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", args, {
+		listeners: {
+			stdout: (data: Buffer) => {
+				stdout += data.toString();
+			},
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: !logger.verbose,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	if (exitCode !== 0) {
+		// Porcelain output reports each rejected ref as "!<TAB><from>:<to><TAB><summary> (<reason>)"
+		const rejected = stdout
+			.split("\n")
+			.filter((line) => line.startsWith("!"))
+			.map((line) => {
+				const [, refspec = "", summary = ""] = line.split("\t");
+				return { ref: refspec.split(":").pop() ?? refspec, summary: summary.trim() };
+			});
+
+		const details = rejected.length > 0 ? `remote rejected: ${rejected.map((entry) => `${entry.ref} ${entry.summary}`).join(", ")}` : stderr.trim() || `git push exited with code ${exitCode}`;
+		const message = `Failed to push tags ${tagNames} (no tag was updated on the remote): ${details}`;
+
+		// "stale info" means a lease did not hold: the remote tag moved since it was read
+		const staleTags = rejected.filter((entry) => entry.summary.includes("stale info")).map((entry) => entry.ref.replace(/^refs\/tags\//, ""));
+		if (staleTags.length > 0) {
+			throw new LeaseRejectedError(message, staleTags);
+		}
+		throw new Error(message);
 	}
+
+	core.info(`Successfully pushed tag(s) ${tagNames} to remote`);
 }
 
 /**
@@ -175,3 +558,23 @@ export async function verifyTag(tagName: string, expectedSha: string, logger: Lo
 		return false;
 	}
 }
+
+/**
+ * Verifies the signature of a signed tag using the key it was signed with
+ */
+export async function verifyTagSignature(tagName: string, signing: SigningConfig, logger: Logger): Promise<boolean> {
+	if (logger.verbose) {
+		core.info(`  → Verifying ${signing.format} signature of tag ${tagName}`);
+	}
+	logger.debug(`Verifying ${signing.format} signature of tag ${tagName}`);
+
+	const cwd = getGitWorkingDirectory();
+	const exitCode = await exec("git", [...signing.gitConfig, "tag", "-v", tagName], {
+		silent: !logger.verbose,
+		ignoreReturnCode: true,
+		cwd,
+	});
+
+	logger.debug(`Signature verification: ${exitCode === 0 ? "PASSED" : "FAILED"}`);
+	return exitCode === 0;
+}
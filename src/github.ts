@@ -0,0 +1,325 @@
+import * as core from "@actions/core";
+import { GitHubBackendOptions, RemoteTag, SigningConfig, TagAnnotation, TagBackend, TagOperationResult, TagPush, TagRestore } from "./types";
+import { LeaseRejectedError } from "./git";
+import { Logger } from "./logger";
+import { withRetries } from "./retry";
+
+/**
+ * Raised when the GitHub API answers with an error status
+ */
+class GitHubApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status: number,
+	) {
+		super(message);
+		this.name = "GitHubApiError";
+	}
+}
+
+/**
+ * A git reference as returned by the Git References API
+ */
+interface GitRef {
+	ref: string;
+	object: { sha: string; type: string };
+}
+
+/**
+ * Encodes a ref or tag name for use in a URL path, keeping its slashes
+ */
+function encodePath(name: string): string {
+	return name.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Creates a tag backend on top of the GitHub REST API (Git References and Git Tags APIs)
+ * It works without a local clone: every read goes to the repository on GitHub
+ */
+export function createGitHubBackend(options: GitHubBackendOptions, logger: Logger): TagBackend {
+	const baseUrl = `${options.apiUrl.replace(/\/+$/, "")}/repos/${options.repository}`;
+	// Object each floating tag is set to by pushTags: the commit, or the tag object of annotated tags
+	const pendingTags = new Map<string, string>();
+	const retry = options.retry ?? { retries: 0, retryDelay: 0 };
+
+	async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+		logger.debug(`GitHub API: ${method} ${baseUrl}${path}`);
+		const response = await fetch(`${baseUrl}${path}`, {
+			method,
+			headers: {
+				Accept: "application/vnd.github+json",
+				Authorization: `Bearer ${options.token}`,
+				"Content-Type": "application/json",
+				"User-Agent": "git-action-tag-floating-version",
+				"X-GitHub-Api-Version": "2022-11-28",
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+		});
+
+		const text = await response.text();
+		if (!response.ok) {
+			let message = text;
+			try {
+				message = (JSON.parse(text) as { message?: string }).message ?? text;
+			} catch {
+				// Not a JSON error body, keep the raw text
+			}
+			throw new GitHubApiError(`GitHub API ${method} ${path} failed with status ${response.status}: ${message}`, response.status);
+		}
+		return (text ? JSON.parse(text) : undefined) as T;
+	}
+
+	async function listTagRefs(): Promise<GitRef[]> {
+		return request<GitRef[]>("GET", "/git/matching-refs/tags/");
+	}
+
+	/**
+	 * Resolves a ref to its commit, following annotated tag objects
+	 */
+	async function peel(ref: GitRef): Promise<string> {
+		let { sha, type } = ref.object;
+		while (type === "tag") {
+			({ sha, type } = (await request<{ object: { sha: string; type: string } }>("GET", `/git/tags/${sha}`)).object);
+		}
+		return sha;
+	}
+
+	async function getTagRef(tagName: string): Promise<GitRef | undefined> {
+		try {
+			return await request<GitRef>("GET", `/git/ref/tags/${encodePath(tagName)}`);
+		} catch (error) {
+			if (error instanceof GitHubApiError && error.status === 404) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Points a tag ref to an object, creating the ref if it does not exist yet
+	 * A create that fails because the ref exists succeeds when the ref already has the object (an earlier attempt went through)
+	 */
+	async function writeTagRef(tagName: string, sha: string, exists: boolean): Promise<void> {
+		if (exists) {
+			await request("PATCH", `/git/refs/tags/${encodePath(tagName)}`, { sha, force: true });
+			return;
+		}
+		try {
+			await request("POST", "/git/refs", { ref: `refs/tags/${tagName}`, sha });
+		} catch (error) {
+			if (error instanceof GitHubApiError && error.status === 422 && (await getTagRef(tagName))?.object.sha === sha) {
+				return;
+			}
+			throw error;
+		}
+	}
+
+	return {
+		async getCommitSha(ref: string): Promise<string> {
+			core.info(`Resolving commit SHA for reference: ${ref}`);
+			try {
+				const commit = await request<{ sha: string }>("GET", `/commits/${encodePath(ref.replace(/^refs\/(tags|heads)\//, ""))}`);
+				if (logger.verbose) {
+					core.info(`  → Resolved commit SHA: ${commit.sha}`);
+				}
+				logger.debug(`Resolved commit SHA: ${commit.sha}`);
+				core.info(`Resolved commit SHA: ${commit.sha.substring(0, 7)}...`);
+				return commit.sha;
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error occurred";
+				throw new Error(`Failed to resolve commit SHA for "${ref}": ${message}`);
+			}
+		},
+
+		async listTags(): Promise<string[]> {
+			logger.debug("Listing tags through the GitHub API");
+			const tags = (await listTagRefs()).map((ref) => ref.ref.replace(/^refs\/tags\//, ""));
+			logger.debug(`Found ${tags.length} tag(s) on GitHub`);
+			return tags;
+		},
+
+		// Every read goes to GitHub, so the remote tags are the tags
+		async listRemoteTags(): Promise<string[]> {
+			return (await listTagRefs()).map((ref) => ref.ref.replace(/^refs\/tags\//, ""));
+		},
+
+		listsRemoteTags: true,
+
+		async getRemoteTags(tagNames: string[]): Promise<Map<string, RemoteTag>> {
+			const remoteTags = new Map<string, RemoteTag>();
+			if (tagNames.length === 0) {
+				return remoteTags;
+			}
+
+			logger.debug(`Reading remote state of tag(s): ${tagNames.join(", ")}`);
+			for (const ref of await listTagRefs()) {
+				const tagName = ref.ref.replace(/^refs\/tags\//, "");
+				if (tagNames.includes(tagName)) {
+					remoteTags.set(tagName, { objectSha: ref.object.sha, commitSha: await peel(ref) });
+				}
+			}
+
+			for (const tagName of tagNames) {
+				const remoteTag = remoteTags.get(tagName);
+				logger.debug(remoteTag ? `Remote tag ${tagName} points to ${remoteTag.commitSha}` : `Remote tag ${tagName} does not exist`);
+			}
+			return remoteTags;
+		},
+
+		async fetchTags(): Promise<void> {
+			logger.debug("The GitHub API always reads the current remote state, nothing to fetch");
+		},
+
+		async createOrUpdateTag(tagName: string, commitSha: string, _logger: Logger, annotation?: TagAnnotation, signing?: SigningConfig): Promise<TagOperationResult> {
+			if (signing) {
+				throw new Error("Signed tags are not supported by the github backend");
+			}
+
+			const exists = (await getTagRef(tagName)) !== undefined;
+			core.info(`${exists ? "Updating existing" : "Creating new"} ${annotation ? "annotated tag" : "tag"}: ${tagName} -> ${commitSha.substring(0, 7)}`);
+
+			if (annotation) {
+				logger.debug(`Tagger: ${annotation.taggerName} <${annotation.taggerEmail}>`);
+				logger.debug(`Tag message: ${annotation.message}`);
+				const tagObject = await request<{ sha: string }>("POST", "/git/tags", {
+					tag: tagName,
+					message: annotation.message,
+					object: commitSha,
+					type: "commit",
+					tagger: { name: annotation.taggerName, email: annotation.taggerEmail, date: new Date().toISOString() },
+				});
+				logger.debug(`Created tag object ${tagObject.sha} for ${tagName}`);
+				pendingTags.set(tagName, tagObject.sha);
+			} else {
+				pendingTags.set(tagName, commitSha);
+			}
+
+			return {
+				tagName,
+				commitSha,
+				created: !exists,
+				updated: exists,
+				unchanged: false,
+			};
+		},
+
+		retriesPushes: true,
+
+		/**
+		 * Points the tag refs on GitHub to the objects recorded by createOrUpdateTag
+		 * The API cannot update several refs in one transaction or conditionally, so every lease is checked first
+		 * and the refs are written right after; a failure names the tags that were already updated
+		 * Each write is retried on its own, since retrying the whole push would find the refs written so far moved
+		 */
+		async pushTags(pushes: TagPush[]): Promise<void> {
+			if (pushes.length === 0) {
+				logger.debug("No tags to push");
+				return;
+			}
+
+			const tagNames = pushes.map((push) => push.tagName).join(", ");
+			core.info(`Updating ${pushes.length} tag(s) through the GitHub API: ${tagNames}`);
+
+			const current = new Map((await listTagRefs()).map((ref) => [ref.ref.replace(/^refs\/tags\//, ""), ref.object.sha]));
+			const stale = pushes.filter((push) => push.expectedSha !== undefined && (current.get(push.tagName) ?? null) !== push.expectedSha).map((push) => push.tagName);
+			if (stale.length > 0) {
+				throw new LeaseRejectedError(
+					`Failed to push tags ${tagNames} (no tag was updated on the remote): remote rejected: ${stale.map((tagName) => `refs/tags/${tagName} [rejected] (stale info)`).join(", ")}`,
+					stale,
+				);
+			}
+
+			const updated: string[] = [];
+			for (const push of pushes) {
+				const sha = pendingTags.get(push.tagName);
+				if (!sha) {
+					throw new Error(`Tag ${push.tagName} must be created before it is pushed`);
+				}
+
+				try {
+					await withRetries(() => writeTagRef(push.tagName, sha, current.has(push.tagName)), `Pushing tag ${push.tagName}`, retry, logger);
+				} catch (error) {
+					const message = error instanceof Error ? error.message : "Unknown error occurred";
+					const done = updated.length > 0 ? `already updated: ${updated.join(", ")}` : "no tag was updated on the remote";
+					// The tag was created by someone else since the leases were checked
+					if (error instanceof GitHubApiError && error.status === 422 && !current.has(push.tagName)) {
+						throw new LeaseRejectedError(`Failed to push tag ${push.tagName} (${done}): ${message}`, [push.tagName]);
+					}
+					throw new Error(`Failed to push tag ${push.tagName} (${done}): ${message}`);
+				}
+				pendingTags.delete(push.tagName);
+				updated.push(push.tagName);
+			}
+
+			core.info(`Successfully pushed tag(s) ${tagNames} to remote`);
+		},
+
+		async verifyTag(tagName: string, expectedSha: string): Promise<boolean> {
+			logger.debug(`Verifying tag ${tagName} points to ${expectedSha}`);
+			try {
+				const ref = await getTagRef(tagName);
+				const actualSha = ref ? await peel(ref) : undefined;
+				const matches = actualSha === expectedSha;
+				logger.debug(`Tag verification: ${matches ? "PASSED" : "FAILED"} (expected: ${expectedSha.substring(0, 7)}, actual: ${actualSha?.substring(0, 7) ?? "missing"})`);
+				return matches;
+			} catch {
+				return false;
+			}
+		},
+
+		/**
+		 * There are no local tags: an untouched tag has no pending object yet
+		 */
+		async getTagObjectSha(tagName: string): Promise<string | undefined> {
+			return pendingTags.get(tagName);
+		},
+
+		async restoreTag(tagName: string, objectSha: string | null): Promise<void> {
+			logger.debug(`Discarding pending update of tag ${tagName}`);
+			if (objectSha) {
+				pendingTags.set(tagName, objectSha);
+			} else {
+				pendingTags.delete(tagName);
+			}
+		},
+
+		async restoreRemoteTag(restore: TagRestore): Promise<void> {
+			const { tagName, previousSha, expectedSha } = restore;
+			try {
+				// Same lease as pushTags: leave the tag alone if someone else moved it since the update
+				const current = await getTagRef(tagName);
+				if (current?.object.sha !== expectedSha) {
+					throw new Error(`remote tag points to ${current ? current.object.sha.substring(0, 7) : "nothing"} instead of ${expectedSha.substring(0, 7)} (stale info)`);
+				}
+
+				if (previousSha) {
+					await request("PATCH", `/git/refs/tags/${encodePath(tagName)}`, { sha: previousSha, force: true });
+				} else {
+					await request("DELETE", `/git/refs/tags/${encodePath(tagName)}`);
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error occurred";
+				throw new Error(`Failed to restore remote tag ${tagName}: ${message}`);
+			}
+		},
+
+		async isAncestor(ancestorSha: string, commitSha: string): Promise<boolean> {
+			logger.debug(`Comparing ${ancestorSha} with ${commitSha}`);
+			const comparison = await request<{ status: string }>("GET", `/compare/${ancestorSha}...${commitSha}`);
+			// "ahead": the commit descends from the ancestor; "behind" and "diverged" mean it does not
+			return comparison.status === "ahead" || comparison.status === "identical";
+		},
+
+		async getCommitSubject(commitSha: string): Promise<string | undefined> {
+			try {
+				const commit = await request<{ message: string }>("GET", `/git/commits/${commitSha}`);
+				return commit.message.split("\n")[0];
+			} catch (error) {
+				if (error instanceof GitHubApiError && error.status === 404) {
+					return undefined;
+				}
+				throw error;
+			}
+		},
+	};
+}
@@ -1,22 +1,790 @@
 import * as core from "@actions/core";
-import { parseVersion, createTagName } from "./version";
-import { getCommitSha, createOrUpdateTag, pushTag, verifyTag } from "./git";
-import { ActionInputs } from "./types";
+import { parseVersion, tryParseVersion, compareVersions, findNewerVersion, formatVersion, getPrereleaseIdentifier, validateCalVerFormat, compileVersionPattern, VERSION_COMPONENTS } from "./version";
+import { renderTemplate } from "./template";
+import * as git from "./git";
+import { isValidTagName, verifyTagSignature, LeaseRejectedError } from "./git";
+import { createGitHubBackend } from "./github";
+import { withRetryPolicy } from "./retry";
+import { writeJobSummary } from "./summary";
+import { setupSigning, cleanupSigning } from "./signing";
+import { detectTag } from "./event";
+import { ActionInputs, ActionMode, AncestryCheck, BackendName, DowngradePolicy, DriftedTag, FloatingTag, FloatingTagTarget, FloatingTagLevel, SigningFormat, SkippedTag, TagAction, TagAnnotation, TagBackend, RemoteTag, TagOperationResult, TagPlanEntry, TagPush, TagSnapshot, UnknownChannelPolicy, VersionInfo, VersionScheme, VersionSchemeName, ZeroMajorPolicy } from "./types";
 import { Logger } from "./logger";
 
+const FLOATING_TAG_LEVELS: readonly FloatingTagLevel[] = ["major", "minor", "patch", "latest"];
+const AUTO_PREFIX = "auto";
+const DEFAULT_MAJOR_TEMPLATE = "{prefix}{major}";
+const DEFAULT_MINOR_TEMPLATE = "{prefix}{major}.{minor}";
+const DEFAULT_PATCH_TEMPLATE = "{prefix}{major}.{minor}.{patch}";
+const DEFAULT_SCOPE_TEMPLATE = "{scope}{delimiter}{tag}";
+const DEFAULT_CALVER_FORMAT = "YYYY.MM.MICRO";
+const DEFAULT_TAG_MESSAGE = "Floating tag {tag} -> {sourceTag} ({sha})";
+const DEFAULT_TAGGER_NAME = "github-actions[bot]";
+const DEFAULT_TAGGER_EMAIL = "41898282+github-actions[bot]@users.noreply.github.com";
+const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+/**
+ * Reads an input restricted to a fixed set of values
+ * Falls back to the default when the input is empty
+ */
+function getChoiceInput<T extends string>(name: string, choices: readonly T[], defaultValue: T): T {
+	const value = core.getInput(name) || defaultValue;
+	if (!choices.includes(value as T)) {
+		throw new Error(`Invalid ${name} "${value}". Expected one of: ${choices.join(", ")}`);
+	}
+	return value as T;
+}
+
+/**
+ * Reads an optional boolean input
+ * Falls back to the default when the input is empty
+ */
+function getOptionalBooleanInput(name: string, defaultValue: boolean): boolean {
+	return core.getInput(name) ? core.getBooleanInput(name) : defaultValue;
+}
+
+/**
+ * Reads an optional non-negative integer input
+ * Falls back to the default when the input is empty
+ */
+function getNumberInput(name: string, defaultValue: number): number {
+	const value = core.getInput(name);
+	if (!value) {
+		return defaultValue;
+	}
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid ${name} "${value}". Expected a non-negative integer`);
+	}
+	return parseInt(value, 10);
+}
+
+/**
+ * Gets the floating tag levels maintained without the levels input, derived from the number of version components
+ * Two-component versions only have major tags, four-component versions have major, minor and patch tags,
+ * and three-component versions have major tags, plus minor tags when updateMinor is set
+ */
+function getDefaultLevels(updateMinor: boolean, components: number): FloatingTagLevel[] {
+	if (components === 2) {
+		return ["major"];
+	}
+	if (components === 4) {
+		return ["major", "minor", "patch"];
+	}
+	return updateMinor ? ["major", "minor"] : ["major"];
+}
+
+/**
+ * Reads the floating tag levels to maintain (comma or newline separated)
+ * Without the input, the levels are derived from the number of version components (see getDefaultLevels)
+ * A level is only available when versions have more components than its tags (e.g., patch tags need four-component versions)
+ */
+function getLevelsInput(updateMinor: boolean, scheme: VersionScheme): FloatingTagLevel[] {
+	const value = core.getInput("levels");
+	// CalVer versions always have three segments
+	const components = scheme.name === "calver" ? 3 : scheme.components;
+	const levels: FloatingTagLevel[] = value ? [] : getDefaultLevels(updateMinor, components);
+	for (const level of value.split(/[,\n]/).map((entry) => entry.trim()).filter(Boolean)) {
+		if (!FLOATING_TAG_LEVELS.includes(level as FloatingTagLevel)) {
+			throw new Error(`Invalid level "${level}" in levels. Expected any of: ${FLOATING_TAG_LEVELS.join(", ")}`);
+		}
+		if (!levels.includes(level as FloatingTagLevel)) {
+			levels.push(level as FloatingTagLevel);
+		}
+	}
+	if (levels.length === 0) {
+		throw new Error("levels must name at least one floating tag level");
+	}
+
+	// A floating tag with as many components as the releases would be named like a release (e.g., v1.2 for two-component versions)
+	for (const [level, needed] of [["minor", 3], ["patch", 4]] as const) {
+		if (levels.includes(level) && components < needed) {
+			throw new Error(`The ${level} level needs versions with at least ${needed} components, but versions have ${components}`);
+		}
+	}
+	return levels;
+}
+
+/**
+ * Reads the versioning scheme of the release tags, validating the CalVer format and version pattern up front
+ */
+function getSchemeInput(): VersionScheme {
+	const name = getChoiceInput<VersionSchemeName>("scheme", ["semver", "calver"], "semver");
+	const calverFormat = core.getInput("calverFormat") || DEFAULT_CALVER_FORMAT;
+	if (name === "calver") {
+		validateCalVerFormat(calverFormat);
+	}
+	const components = getNumberInput("versionComponents", 3);
+	if (!VERSION_COMPONENTS.includes(components)) {
+		throw new Error(`Invalid versionComponents "${components}". Expected one of: ${VERSION_COMPONENTS.join(", ")}`);
+	}
+	const scheme: VersionScheme = { name, calverFormat, components };
+	const versionPattern = core.getInput("versionPattern");
+	if (versionPattern) {
+		scheme.versionPattern = compileVersionPattern(versionPattern, scheme);
+	}
+	return scheme;
+}
+
+/**
+ * Reads the prerelease channels (comma or newline separated "identifier" or "identifier=channel" entries)
+ * Returns a map from prerelease identifier to channel name, empty when channels are disabled
+ */
+function getChannelsInput(): Map<string, string> {
+	const channels = new Map<string, string>();
+	for (const entry of core.getInput("prereleaseChannels").split(/[,\n]/).map((value) => value.trim()).filter(Boolean)) {
+		const [identifier, channel = identifier] = entry.split("=").map((part) => part.trim());
+		if (!/^[A-Za-z][A-Za-z0-9-]*$/.test(identifier) || !channel) {
+			throw new Error(`Invalid prereleaseChannels entry "${entry}". Expected "identifier" or "identifier=channel" (e.g., "rc" or "pre=preview")`);
+		}
+		channels.set(identifier.toLowerCase(), channel);
+	}
+	return channels;
+}
+
+/**
+ * Gets the configured channel of a prerelease
+ * Returns undefined for stable versions and prereleases whose identifier is not a configured channel
+ */
+function getChannel(versionInfo: VersionInfo, prereleaseChannels: Map<string, string>): string | undefined {
+	const identifier = versionInfo.isPrerelease ? getPrereleaseIdentifier(versionInfo) : undefined;
+	return identifier ? prereleaseChannels.get(identifier) : undefined;
+}
+
+/**
+ * Gets the floating tag levels a version maintains
+ * For 0.x releases, zeroMajorPolicy drops the major level or replaces it with the minor level
+ */
+function getVersionLevels(levels: FloatingTagLevel[], versionInfo: VersionInfo, zeroMajorPolicy: ZeroMajorPolicy): FloatingTagLevel[] {
+	if (versionInfo.major !== 0 || zeroMajorPolicy === "float" || !levels.includes("major")) {
+		return levels;
+	}
+	const versionLevels: FloatingTagLevel[] = [];
+	for (const level of levels) {
+		const versionLevel = level === "major" ? (zeroMajorPolicy === "minor-as-major" ? "minor" : undefined) : level;
+		if (versionLevel && !versionLevels.includes(versionLevel)) {
+			versionLevels.push(versionLevel);
+		}
+	}
+	return versionLevels;
+}
+
+/**
+ * Names the floating tags of a version for the configured levels, prerelease channel and package scope
+ * Throws if two levels would share a tag name
+ */
+function getFloatingTags(inputs: ActionInputs, versionInfo: VersionInfo, channel: string | undefined): FloatingTag[] {
+	const { latestTag, majorTemplate, minorTemplate, patchTemplate, scopeDelimiter, scopeTemplate } = inputs;
+	// prefix: auto keeps the prefix of the release (e.g., release-5 for release-5.1.0)
+	const prefix = inputs.prefix === AUTO_PREFIX ? (versionInfo.prefix ?? "") : inputs.prefix;
+	// CalVer segments are used as written (e.g., v24.04)
+	const major = versionInfo.segments?.[0] ?? versionInfo.major;
+	const minor = versionInfo.segments?.[1] ?? versionInfo.minor;
+	const patch = versionInfo.segments?.[2] ?? versionInfo.patch;
+
+	const floatingTags: FloatingTag[] = getVersionLevels(inputs.levels, versionInfo, inputs.zeroMajorPolicy).map((level) => {
+		switch (level) {
+			case "major":
+				return { level, tagName: renderTemplate(majorTemplate, { prefix, major }, "majorTemplate") };
+			case "minor":
+				return { level, tagName: renderTemplate(minorTemplate, { prefix, major, minor }, "minorTemplate") };
+			case "patch":
+				return { level, tagName: renderTemplate(patchTemplate, { prefix, major, minor, patch }, "patchTemplate") };
+			case "latest":
+				return { level, tagName: latestTag };
+		}
+	});
+	if (channel) {
+		for (const floatingTag of floatingTags) {
+			floatingTag.tagName = `${floatingTag.tagName}-${channel}`;
+			floatingTag.channel = channel;
+		}
+	}
+	// Monorepo packages get their own floating tags (e.g., api@v1, web/v3)
+	if (versionInfo.scope) {
+		for (const floatingTag of floatingTags) {
+			floatingTag.tagName = renderTemplate(scopeTemplate, { scope: versionInfo.scope, delimiter: scopeDelimiter, tag: floatingTag.tagName }, "scopeTemplate");
+		}
+	}
+
+	for (const [index, floatingTag] of floatingTags.entries()) {
+		const duplicate = floatingTags.slice(0, index).find((other) => other.tagName === floatingTag.tagName);
+		if (duplicate) {
+			throw new Error(`The ${duplicate.level} and ${floatingTag.level} floating tags would both be named "${floatingTag.tagName}"`);
+		}
+	}
+	return floatingTags;
+}
+
+/**
+ * Rejects floating tag names that are not valid git tag names, before any tag is touched
+ */
+async function validateFloatingTags(floatingTags: FloatingTag[], logger: Logger): Promise<void> {
+	for (const floatingTag of floatingTags) {
+		if (!(await isValidTagName(floatingTag.tagName, logger))) {
+			throw new Error(`Invalid ${floatingTag.level} tag name "${floatingTag.tagName}": not a valid git tag name (see git check-ref-format)`);
+		}
+	}
+}
+
+/**
+ * Runs an update, recomputing and retrying it when another workflow moved a floating tag in the meantime
+ */
+async function withLeaseRetries(update: () => Promise<void>, leaseRetries: number, backend: TagBackend, logger: Logger): Promise<void> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			await update();
+			return;
+		} catch (error) {
+			if (!(error instanceof LeaseRejectedError) || attempt > leaseRetries) {
+				throw error;
+			}
+			core.warning(`${error.message}. Retrying with the remote's current state (retry ${attempt} of ${leaseRetries})`);
+			await backend.fetchTags(logger);
+		}
+	}
+}
+
+/**
+ * Lists the tags both locally and on the remote
+ * Remote tags count too: a checkout without tags (the actions/checkout default) has none of the other releases locally
+ */
+async function listAllTags(backend: TagBackend, logger: Logger): Promise<string[]> {
+	const tags = await backend.listTags(logger);
+	if (backend.listsRemoteTags) {
+		return tags;
+	}
+	return [...new Set([...tags, ...(await backend.listRemoteTags(logger))])];
+}
+
+/**
+ * Computes the plan for the floating tags of a release and applies it: creates, verifies and pushes the tags
+ * Throws LeaseRejectedError when a floating tag changed on the remote while it was being updated
+ */
+async function updateFloatingTags(inputs: ActionInputs, versionInfo: VersionInfo, commitSha: string, floatingTags: FloatingTag[], backend: TagBackend, logger: Logger): Promise<void> {
+	const { tag, scopeDelimiter, scheme, ignorePrerelease, prereleaseChannels, downgradePolicy } = inputs;
+
+	// Downgrade protection: never move a floating tag back to an older release in its line
+	// The latest tag is always protected: it only follows the newest stable release across all majors
+	const skipped: SkippedTag[] = [];
+	const protectedTags = floatingTags.filter((floatingTag) => downgradePolicy !== "allow" || floatingTag.level === "latest");
+	if (protectedTags.length > 0) {
+		const allVersions = (await listAllTags(backend, logger))
+			.map((existingTag) => tryParseVersion(existingTag, scopeDelimiter, scheme))
+			// Releases of other packages in a monorepo never block this package's floating tags
+			.filter((existing): existing is VersionInfo => existing !== undefined && existing.scope === versionInfo.scope);
+		// With prerelease channels, prereleases only move channel tags and never block the stable lines (as in reconcile)
+		const existingVersions = allVersions.filter((existing) => !existing.isPrerelease || (!ignorePrerelease && prereleaseChannels.size === 0));
+		logger.debug(`Comparing against ${existingVersions.length} existing version tag(s)`);
+		// A release is only in a floating tag's line when it maintains a tag of that name (as in reconcile), e.g. v5.3.0 maintains v5 but not release-5
+		const floatingTagNames = new Map(allVersions.map((existing) => [existing, getFloatingTags(inputs, existing, getChannel(existing, prereleaseChannels)).map((floatingTag) => floatingTag.tagName)]));
+		const inLine = (versions: VersionInfo[], tagName: string) => versions.filter((existing) => floatingTagNames.get(existing)!.includes(tagName));
+
+		for (const floatingTag of protectedTags) {
+			const { level, tagName, channel } = floatingTag;
+			// Channel tags only follow prereleases of their own channel
+			if (channel) {
+				const channelVersions = allVersions.filter((existing) => getChannel(existing, prereleaseChannels) === channel);
+				const newer = findNewerVersion(versionInfo, inLine(channelVersions, tagName), level);
+				if (newer) {
+					skipped.push({ tagName, level, reason: `newer ${channel} prerelease ${newer.original} already exists` });
+				}
+				continue;
+			}
+			if (level === "latest") {
+				if (versionInfo.isPrerelease) {
+					skipped.push({ tagName, level, reason: `prerelease ${tag} never moves the latest tag` });
+					continue;
+				}
+				const newer = findNewerVersion(versionInfo, inLine(existingVersions.filter((existing) => !existing.isPrerelease), tagName), level);
+				if (newer) {
+					skipped.push({ tagName, level, reason: `newer release ${newer.original} already exists` });
+				}
+				continue;
+			}
+
+			const newer = findNewerVersion(versionInfo, inLine(existingVersions, tagName), level);
+			if (newer) {
+				skipped.push({ tagName, level, reason: `newer release ${newer.original} already exists in the ${level} line of ${tag}` });
+			}
+		}
+	}
+	core.setOutput("skippedTags", JSON.stringify(skipped));
+
+	// A skipped latest tag is expected for hotfixes of older lines and never fails the action
+	const blocking = skipped.filter((entry) => entry.level !== "latest");
+	if (blocking.length > 0 && downgradePolicy === "fail") {
+		throw new Error(`Refusing to move floating tags backwards (downgradePolicy=fail): ${blocking.map((entry) => `${entry.tagName}: ${entry.reason}`).join("; ")}`);
+	}
+	for (const entry of skipped) {
+		core.warning(`Skipping ${entry.tagName}: ${entry.reason}`);
+	}
+
+	await syncFloatingTags(
+		inputs,
+		floatingTags.map((floatingTag) => ({ ...floatingTag, version: versionInfo, commitSha })),
+		skipped,
+		backend,
+		logger,
+	);
+}
+
+/**
+ * Computes where every floating tag should point: the highest release in its line among all version tags, locally and on the remote
+ */
+async function getExpectedTargets(inputs: ActionInputs, backend: TagBackend, logger: Logger): Promise<FloatingTagTarget[]> {
+	const { scopeDelimiter, scheme, ignorePrerelease, prereleaseChannels } = inputs;
+
+	const existingTags = await listAllTags(backend, logger);
+	const highest = new Map<string, { floatingTag: FloatingTag; version: VersionInfo }>();
+	for (const existingTag of existingTags) {
+		const version = tryParseVersion(existingTag, scopeDelimiter, scheme);
+		if (!version) {
+			continue;
+		}
+
+		// Same prerelease rules as for a single release; prereleases outside the configured channels are ignored
+		const channel = getChannel(version, prereleaseChannels);
+		if (version.isPrerelease && !channel && (ignorePrerelease || prereleaseChannels.size > 0)) {
+			logger.debug(`Ignoring prerelease ${existingTag}`);
+			continue;
+		}
+
+		for (const floatingTag of getFloatingTags(inputs, version, channel)) {
+			if (floatingTag.level === "latest" && version.isPrerelease && !channel) {
+				continue;
+			}
+			const current = highest.get(floatingTag.tagName);
+			if (!current || compareVersions(version, current.version) > 0) {
+				highest.set(floatingTag.tagName, { floatingTag, version });
+			}
+		}
+	}
+	logger.debug(`Found ${highest.size} floating tag(s) in ${existingTags.length} existing tag(s)`);
+
+	// Releases are resolved on the remote, so those missing from a checkout without tags still count; local-only releases are resolved locally
+	const sources = await backend.getRemoteTags([...new Set([...highest.values()].map(({ version }) => version.original))], logger);
+	const targets: FloatingTagTarget[] = [];
+	for (const { floatingTag, version } of highest.values()) {
+		const commitSha = sources.get(version.original)?.commitSha ?? (await backend.getCommitSha(`refs/tags/${version.original}`, logger));
+		targets.push({ ...floatingTag, version, commitSha });
+	}
+	await validateFloatingTags(targets, logger);
+	return targets;
+}
+
+/**
+ * Points every floating tag at the highest release in its line, rebuilt from all version tags in the repository
+ * Throws LeaseRejectedError when a floating tag changed on the remote while it was being updated
+ */
+async function reconcileFloatingTags(inputs: ActionInputs, backend: TagBackend, logger: Logger): Promise<void> {
+	const targets = await getExpectedTargets(inputs, backend, logger);
+	core.info(`🔁 Reconciling ${targets.length} floating tag(s) with the tag history`);
+
+	core.setOutput("skippedTags", JSON.stringify([]));
+	await syncFloatingTags(inputs, targets, [], backend, logger);
+}
+
+/**
+ * Compares every floating tag on the remote with the release it should point to, without writing anything
+ * Fails with a table of the floating tags that drifted
+ */
+async function verifyFloatingTags(inputs: ActionInputs, backend: TagBackend, logger: Logger): Promise<void> {
+	const targets = await getExpectedTargets(inputs, backend, logger);
+	core.info(`🔎 Verifying ${targets.length} floating tag(s) against the remote`);
+
+	const remoteTags = await backend.getRemoteTags(targets.map((target) => target.tagName), logger);
+	const drifted: DriftedTag[] = [];
+	for (const target of targets) {
+		const actualSha = remoteTags.get(target.tagName)?.commitSha ?? null;
+		if (actualSha === target.commitSha) {
+			logger.debug(`Tag ${target.tagName} points to ${target.version.original} as expected`);
+			continue;
+		}
+		drifted.push({ tagName: target.tagName, level: target.level, sourceTag: target.version.original, expectedSha: target.commitSha, actualSha });
+	}
+	core.setOutput("driftedTags", JSON.stringify(drifted));
+
+	if (drifted.length === 0) {
+		core.info(`✅ All ${targets.length} floating tag(s) point to the expected release`);
+		return;
+	}
+
+	const rows = [
+		["Tag", "Expected", "Actual"],
+		...drifted.map((entry) => [entry.tagName, `${entry.expectedSha.substring(0, 7)} (${entry.sourceTag})`, entry.actualSha ? entry.actualSha.substring(0, 7) : "(missing)"]),
+	];
+	const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+	for (const row of rows) {
+		core.info(`   ${row.map((cell, column) => cell.padEnd(widths[column])).join("   ")}`.trimEnd());
+	}
+	throw new Error(`${drifted.length} of ${targets.length} floating tag(s) drifted from their expected release: ${drifted.map((entry) => entry.tagName).join(", ")}`);
+}
+
+/**
+ * Checks that every floating tag about to move goes to a descendant of its current target (e.g., not to a release cut from a stray branch)
+ * Warns about or fails on the tags that would move to an unrelated commit, naming both commits with their subjects
+ */
+async function checkAncestry(plan: TagPlanEntry[], ancestryCheck: AncestryCheck, backend: TagBackend, logger: Logger): Promise<void> {
+	const describeCommit = async (sha: string) => {
+		const subject = await backend.getCommitSubject(sha, logger);
+		return subject ? `${sha.substring(0, 7)} ("${subject}")` : sha.substring(0, 7);
+	};
+
+	const unrelated: string[] = [];
+	for (const entry of plan.filter((planned) => planned.action === "update")) {
+		const currentSha = entry.currentSha!;
+		let descends: boolean;
+		try {
+			descends = await backend.isAncestor(currentSha, entry.newSha, logger);
+		} catch (error) {
+			const message = `Could not check whether ${entry.tagName} moves to a descendant of its current target: ${error instanceof Error ? error.message : "Unknown error occurred"}`;
+			if (ancestryCheck === "fail") {
+				throw new Error(message);
+			}
+			core.warning(message);
+			continue;
+		}
+		if (descends) {
+			logger.debug(`Tag ${entry.tagName} moves forward from ${currentSha.substring(0, 7)} to ${entry.newSha.substring(0, 7)}`);
+			continue;
+		}
+		unrelated.push(`${entry.tagName} from ${await describeCommit(currentSha)} to ${await describeCommit(entry.newSha)}`);
+	}
+
+	if (unrelated.length > 0 && ancestryCheck === "fail") {
+		throw new Error(`Refusing to move floating tags to commits that do not descend from their current target (ancestryCheck=fail): ${unrelated.join("; ")}`);
+	}
+	for (const entry of unrelated) {
+		core.warning(`Moving ${entry}, which does not descend from it`);
+	}
+}
+
+/**
+ * Brings the floating tags on the remote in line with their targets: computes the plan, then creates, verifies and pushes the tags
+ * Throws LeaseRejectedError when a floating tag changed on the remote while it was being updated
+ */
+async function syncFloatingTags(inputs: ActionInputs, targets: FloatingTagTarget[], skipped: SkippedTag[], backend: TagBackend, logger: Logger): Promise<void> {
+	const { mode, tag, ancestryCheck, dryRun, jobSummary, annotated, tagMessage, taggerName, taggerEmail, signingFormat, signingKey, signingKeyPassphrase } = inputs;
+
+	// Record where each floating tag currently points on the remote; pushes only succeed if it is still there
+	const remoteTags = await backend.getRemoteTags(targets.map((target) => target.tagName), logger);
+	const targetsByName = new Map(targets.map((target) => [target.tagName, target]));
+	// A single release points every floating tag to the same commit; reconcile mode may point each to a different one
+	const commitShas = new Set(targets.map((target) => target.commitSha));
+	const commitSha = commitShas.size === 1 ? targets[0].commitSha : undefined;
+
+	// Compute the plan: where each floating tag points now on the remote and what will happen to it
+	const plan: TagPlanEntry[] = [];
+	for (const target of targets) {
+		const currentSha = remoteTags.get(target.tagName)?.commitSha;
+		const skip = skipped.find((entry) => entry.tagName === target.tagName);
+
+		let action: TagAction;
+		if (skip) {
+			action = "skip";
+		} else if (!currentSha) {
+			action = "create";
+		} else if (currentSha === target.commitSha) {
+			action = "noop";
+		} else {
+			action = "update";
+		}
+
+		plan.push({
+			tagName: target.tagName,
+			level: target.level,
+			sourceTag: target.version.original.replace(/^refs\/tags\//, ""),
+			currentSha: currentSha ?? null,
+			newSha: target.commitSha,
+			action,
+			...(skip ? { reason: skip.reason } : {}),
+		});
+	}
+	core.setOutput("plan", JSON.stringify(plan));
+
+	// Show initial summary of what will be done
+	core.info(commitSha ? `📋 Plan: Will create/update floating tags pointing to commit ${commitSha.substring(0, 7)}` : "📋 Plan: Will create/update floating tags pointing to the highest release in each line");
+	for (const entry of plan) {
+		const label = `   - ${entry.level.charAt(0).toUpperCase()}${entry.level.slice(1)} tag: ${entry.tagName} [${entry.action}]`;
+		if (entry.action === "skip") {
+			core.info(`${label} ${entry.reason}`);
+		} else {
+			core.info(`${label} ${entry.currentSha ? entry.currentSha.substring(0, 7) : "(none)"} → ${entry.newSha.substring(0, 7)}${commitSha ? "" : ` (${entry.sourceTag})`}`);
+		}
+	}
+
+	// A floating tag should only move forward in history; checked before any tag is touched, dry run included
+	if (ancestryCheck !== "off") {
+		await checkAncestry(plan, ancestryCheck, backend, logger);
+	}
+
+	// Render annotated tag messages up front so template errors surface before any tag is touched
+	const annotations = new Map<string, TagAnnotation>();
+	if (annotated) {
+		for (const entry of plan.filter((planned) => planned.action !== "skip")) {
+			const { version } = targetsByName.get(entry.tagName)!;
+			annotations.set(entry.tagName, {
+				message: renderTemplate(
+					tagMessage,
+					{
+						tag: entry.tagName,
+						sourceTag: entry.sourceTag,
+						version: formatVersion(version),
+						major: version.major,
+						minor: version.minor,
+						patch: version.patch,
+						prerelease: version.prerelease,
+						scope: version.scope,
+						sha: entry.newSha,
+					},
+					"tagMessage",
+				),
+				taggerName,
+				taggerEmail,
+			});
+		}
+	}
+
+	const summaryTitle = mode === "update" ? `Floating tags for ${tag}` : "Floating tags reconciled from the tag history";
+	if (dryRun) {
+		if (jobSummary) {
+			await writeJobSummary(summaryTitle, plan, true, logger);
+		}
+		core.info("🧪 Dry run: no tags were created or pushed");
+		logger.debug("Action completed successfully (dry run)");
+		return;
+	}
+
+	// Track results for final summary
+	const results: TagOperationResult[] = [];
+	const pushes: TagPush[] = [];
+
+	// Tags that already point to the commit on the remote are left alone
+	for (const entry of plan.filter((planned) => planned.action === "noop")) {
+		logger.debug(`Tag ${entry.tagName} already points to ${entry.newSha.substring(0, 7)} on the remote, nothing to do`);
+		results.push({ tagName: entry.tagName, commitSha: entry.newSha, created: false, updated: false, unchanged: true, previousSha: entry.currentSha });
+	}
+
+	// Create/update every other floating tag locally first, then push them all together
+	// Where each tag pointed before is recorded first, so a failed update can be rolled back
+	const changes = plan.filter((planned) => planned.action === "create" || planned.action === "update");
+	const snapshots: TagSnapshot[] = [];
+	let pushAttempted = false;
+	try {
+		const signing = changes.length > 0 && signingFormat !== "none" ? await setupSigning(signingFormat, signingKey, signingKeyPassphrase, taggerEmail, logger) : undefined;
+		try {
+			for (const entry of changes) {
+				const { level, tagName } = entry;
+				snapshots.push({ tagName, localSha: (await backend.getTagObjectSha(tagName, logger)) ?? null, remoteSha: remoteTags.get(tagName)?.objectSha ?? null });
+
+				// Create/update floating tag
+				core.info(`Creating/updating ${level} tag: ${tagName}`);
+
+				await backend.createOrUpdateTag(tagName, entry.newSha, logger, annotations.get(tagName), signing);
+
+				// Verify the signature before the tag leaves the runner
+				if (signing && !(await verifyTagSignature(tagName, signing, logger))) {
+					throw new Error(`Signature verification failed for tag ${tagName}`);
+				}
+
+				pushes.push({ tagName, expectedSha: remoteTags.get(tagName)?.objectSha ?? null });
+				// Whether the tag is created or updated is decided by the remote, not by the local checkout
+				results.push({ tagName, commitSha: entry.newSha, created: entry.action === "create", updated: entry.action === "update", unchanged: false, previousSha: entry.currentSha });
+			}
+		} finally {
+			if (signing) {
+				await cleanupSigning(signing, logger);
+			}
+		}
+
+		// Push all changed floating tags in one atomic transaction
+		if (pushes.length > 0) {
+			pushAttempted = true;
+			await backend.pushTags(pushes, logger);
+		} else {
+			core.info("All floating tags already point to the commit on the remote, nothing to push");
+		}
+	} catch (error) {
+		await rollbackFloatingTags(snapshots, pushAttempted ? changes : [], backend, logger);
+		throw error;
+	}
+
+	for (const entry of plan.filter((planned) => planned.action !== "skip")) {
+		const { level, tagName } = entry;
+
+		// Verify floating tag (only in verbose mode to avoid unnecessary git calls)
+		if (logger.verbose && entry.action !== "noop") {
+			const verified = await backend.verifyTag(tagName, entry.newSha, logger);
+			if (!verified) {
+				core.warning(`Tag ${tagName} verification failed`);
+			}
+		}
+
+		// Set majorTag/minorTag output; reconcile mode maintains several tags per level and reports them in the plan only
+		if (mode === "update") {
+			core.setOutput(`${level}Tag`, tagName);
+		}
+	}
+
+	core.setOutput("results", JSON.stringify(results));
+
+	// Final summary
+	core.info("✅ Successfully completed floating version tag operations");
+	core.info(commitSha ? `📊 Summary (all tags point to commit ${commitSha.substring(0, 7)}):` : "📊 Summary:");
+	for (const result of results) {
+		const target = commitSha ? "" : ` → ${result.commitSha.substring(0, 7)}`;
+		if (result.created) {
+			core.info(`   ✓ Created: ${result.tagName}${target}`);
+		} else if (result.updated) {
+			core.info(`   ↻ Updated: ${result.tagName}${target}`);
+		} else if (result.unchanged) {
+			core.info(`   = Unchanged: ${result.tagName}${target}`);
+		}
+	}
+	for (const entry of skipped) {
+		core.info(`   ⏭ Skipped: ${entry.tagName} (${entry.reason})`);
+	}
+	if (jobSummary) {
+		await writeJobSummary(summaryTitle, plan, false, logger);
+	}
+}
+
+/**
+ * Puts floating tags back where they pointed before a failed update: on the remote, then locally
+ * Only remote tags the update actually moved are restored (a rejected atomic push changed nothing), and never one another workflow moved since
+ * Reports which tags were rolled back and which could not be; never throws, so the original error is what fails the action
+ */
+async function rollbackFloatingTags(snapshots: TagSnapshot[], pushed: TagPlanEntry[], backend: TagBackend, logger: Logger): Promise<void> {
+	if (snapshots.length === 0) {
+		return;
+	}
+
+	core.warning(`Update failed, rolling back floating tag(s): ${snapshots.map((snapshot) => snapshot.tagName).join(", ")}`);
+	const describe = (sha: string | null) => (sha ? `restored to ${sha.substring(0, 7)}` : "deleted");
+	const rolledBack: string[] = [];
+	const failed: string[] = [];
+
+	if (pushed.length > 0) {
+		let remoteTags: Map<string, RemoteTag> | undefined;
+		try {
+			remoteTags = await backend.getRemoteTags(pushed.map((entry) => entry.tagName), logger);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Unknown error occurred";
+			failed.push(...pushed.map((entry) => `${entry.tagName} on the remote (${message})`));
+		}
+
+		for (const entry of remoteTags ? pushed : []) {
+			const snapshot = snapshots.find((candidate) => candidate.tagName === entry.tagName)!;
+			const current = remoteTags!.get(entry.tagName);
+			if (current?.commitSha !== entry.newSha) {
+				logger.debug(`Remote tag ${entry.tagName} was not changed by the update, nothing to roll back`);
+				continue;
+			}
+			try {
+				await backend.restoreRemoteTag({ tagName: entry.tagName, previousSha: snapshot.remoteSha, expectedSha: current.objectSha }, logger);
+				rolledBack.push(`${entry.tagName} (${describe(snapshot.remoteSha)})`);
+				core.info(`↩ Rolled back ${entry.tagName} on the remote (${describe(snapshot.remoteSha)})`);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error occurred";
+				failed.push(`${entry.tagName} on the remote (${message})`);
+			}
+		}
+	}
+
+	for (const snapshot of snapshots) {
+		try {
+			await backend.restoreTag(snapshot.tagName, snapshot.localSha, logger);
+			logger.debug(`Rolled back local tag ${snapshot.tagName} (${describe(snapshot.localSha)})`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Unknown error occurred";
+			failed.push(`${snapshot.tagName} locally (${message})`);
+		}
+	}
+
+	core.warning(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} floating tag(s) on the remote: ${rolledBack.join(", ")}` : "No floating tag was changed on the remote");
+	for (const entry of failed) {
+		core.error(`Could not roll back ${entry}`);
+	}
+}
+
+/**
+ * Creates the backend that reads and writes the tags: the git CLI in the checked out repository, or the GitHub REST API
+ */
+function getBackend(inputs: ActionInputs, logger: Logger): TagBackend {
+	if (inputs.backend === "git") {
+		return git;
+	}
+
+	const repository = process.env.GITHUB_REPOSITORY;
+	if (!inputs.token) {
+		throw new Error("The token input is required for the github backend");
+	}
+	if (!repository) {
+		throw new Error("GITHUB_REPOSITORY is not set: the github backend can only run inside a GitHub Actions workflow");
+	}
+	if (inputs.signingFormat !== "none") {
+		throw new Error("Signed tags are not supported by the github backend: the GitHub API cannot create signed tag objects");
+	}
+
+	const apiUrl = process.env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL;
+	core.info(`Using the GitHub API at ${apiUrl} for ${repository}`);
+	return createGitHubBackend({ token: inputs.token, apiUrl, repository, retry: inputs.retry }, logger);
+}
+
 /**
  * Main action entry point
  */
 export async function run(): Promise<void> {
 	try {
 		// Parse inputs
-		const tag = core.getInput("tag", { required: true });
+		const mode = getChoiceInput<ActionMode>("mode", ["update", "reconcile", "verify"], "update");
+		const backendName = getChoiceInput<BackendName>("backend", ["git", "github"], "git");
+		const token = core.getInput("token");
+		const tagInput = core.getInput("tag");
 		const refTagInput = core.getInput("refTag");
 		const prefix = core.getInput("prefix") || "v";
 		const updateMinor = core.getBooleanInput("updateMinor");
+		const scheme = getSchemeInput();
+		const levels = getLevelsInput(updateMinor, scheme);
+		const latestTag = core.getInput("latestTag") || "latest";
+		const majorTemplate = core.getInput("majorTemplate") || DEFAULT_MAJOR_TEMPLATE;
+		const minorTemplate = core.getInput("minorTemplate") || DEFAULT_MINOR_TEMPLATE;
+		const patchTemplate = core.getInput("patchTemplate") || DEFAULT_PATCH_TEMPLATE;
+		const scopeDelimiter = core.getInput("scopeDelimiter");
+		const scopeTemplate = core.getInput("scopeTemplate") || DEFAULT_SCOPE_TEMPLATE;
 		const ignorePrerelease = core.getBooleanInput("ignorePrerelease");
+		const prereleaseChannels = getChannelsInput();
+		const unknownChannelPolicy = getChoiceInput<UnknownChannelPolicy>("unknownChannelPolicy", ["fail", "ignore"], "fail");
+		const downgradePolicy = getChoiceInput<DowngradePolicy>("downgradePolicy", ["skip", "fail", "allow"], "skip");
+		const ancestryCheck = getChoiceInput<AncestryCheck>("ancestryCheck", ["warn", "fail", "off"], "off");
+		const zeroMajorPolicy = getChoiceInput<ZeroMajorPolicy>("zeroMajorPolicy", ["float", "skip", "minor-as-major"], "float");
+		if (zeroMajorPolicy === "minor-as-major" && scheme.name !== "calver" && scheme.components < 3) {
+			throw new Error(`zeroMajorPolicy "minor-as-major" needs versions with at least 3 components, but versions have ${scheme.components}`);
+		}
+		const leaseRetries = getNumberInput("leaseRetries", 0);
+		const retry = { retries: getNumberInput("retries", 3), retryDelay: getNumberInput("retryDelay", 1000) };
+		const dryRun = getOptionalBooleanInput("dryRun", false);
+		const jobSummary = getOptionalBooleanInput("jobSummary", true);
+		const signingFormat = getChoiceInput<SigningFormat | "none">("signingFormat", ["none", "gpg", "ssh"], "none");
+		const signingKey = core.getInput("signingKey");
+		const signingKeyPassphrase = core.getInput("signingKeyPassphrase");
+		// Signed tags are always annotated
+		const annotated = getOptionalBooleanInput("annotated", false) || signingFormat !== "none";
+		const tagMessage = core.getInput("tagMessage") || DEFAULT_TAG_MESSAGE;
+		const taggerName = core.getInput("taggerName") || DEFAULT_TAGGER_NAME;
+		const taggerEmail = core.getInput("taggerEmail") || DEFAULT_TAGGER_EMAIL;
 		const verbose = core.getBooleanInput("verbose");
 
+		if (token) {
+			core.setSecret(token);
+		}
+		if (signingKey) {
+			core.setSecret(signingKey);
+		}
+		if (signingKeyPassphrase) {
+			core.setSecret(signingKeyPassphrase);
+		}
+
 		// Set ACTIONS_STEP_DEBUG if verbose is enabled
 		// Note: This may not work if ACTIONS_STEP_DEBUG isn't set at workflow level
 		// For reliable verbose output, we use Logger which uses core.info() when verbose is true
@@ -24,32 +792,113 @@ export async function run(): Promise<void> {
 			process.env.ACTIONS_STEP_DEBUG = "true";
 		}
 
+		// Create logger instance
+		const logger = new Logger(verbose);
+
+		// Without a tag input, use the tag the workflow was triggered for (reconcile and verify modes do not need one)
+		const tag = tagInput || (mode === "update" ? detectTag(logger) : "");
+
 		// Default refTag to tag if not provided
 		const refTag = refTagInput || tag;
 
 		const inputs: ActionInputs = {
+			mode,
+			backend: backendName,
+			token,
 			tag,
 			refTag,
 			prefix,
 			updateMinor,
+			levels,
+			latestTag,
+			majorTemplate,
+			minorTemplate,
+			patchTemplate,
+			scopeDelimiter,
+			scopeTemplate,
+			scheme,
 			ignorePrerelease,
+			prereleaseChannels,
+			unknownChannelPolicy,
+			downgradePolicy,
+			zeroMajorPolicy,
+			ancestryCheck,
+			leaseRetries,
+			retry,
+			dryRun,
+			jobSummary,
+			annotated,
+			tagMessage,
+			taggerName,
+			taggerEmail,
+			signingFormat,
+			signingKey,
+			signingKeyPassphrase,
 			verbose,
 		};
 
-		// Create logger instance
-		const logger = new Logger(verbose);
-
 		if (verbose) {
 			logger.info("🔍 Verbose logging enabled");
 		}
 		logger.debug("Action inputs:");
+		logger.debug(`  mode: ${inputs.mode}`);
+		logger.debug(`  backend: ${inputs.backend}`);
 		logger.debug(`  tag: ${inputs.tag}`);
 		logger.debug(`  refTag: ${inputs.refTag}`);
 		logger.debug(`  prefix: ${inputs.prefix}`);
 		logger.debug(`  updateMinor: ${inputs.updateMinor}`);
+		logger.debug(`  levels: ${inputs.levels.join(", ")}`);
+		if (inputs.levels.includes("latest")) {
+			logger.debug(`  latestTag: ${inputs.latestTag}`);
+		}
+		logger.debug(`  majorTemplate: ${inputs.majorTemplate}`);
+		if (inputs.levels.includes("minor")) {
+			logger.debug(`  minorTemplate: ${inputs.minorTemplate}`);
+		}
+		if (inputs.levels.includes("patch")) {
+			logger.debug(`  patchTemplate: ${inputs.patchTemplate}`);
+		}
+		if (scopeDelimiter) {
+			logger.debug(`  scopeDelimiter: ${inputs.scopeDelimiter}`);
+			logger.debug(`  scopeTemplate: ${inputs.scopeTemplate}`);
+		}
+		logger.debug(`  scheme: ${scheme.name === "calver" ? `calver (${scheme.calverFormat})` : `${scheme.name} (${scheme.components} components)`}`);
+		if (scheme.versionPattern) {
+			logger.debug(`  versionPattern: ${scheme.versionPattern.source}`);
+		}
 		logger.debug(`  ignorePrerelease: ${inputs.ignorePrerelease}`);
+		if (prereleaseChannels.size > 0) {
+			logger.debug(`  prereleaseChannels: ${[...prereleaseChannels].map(([identifier, channel]) => (identifier === channel ? identifier : `${identifier}=${channel}`)).join(", ")}`);
+			logger.debug(`  unknownChannelPolicy: ${inputs.unknownChannelPolicy}`);
+		}
+		logger.debug(`  downgradePolicy: ${inputs.downgradePolicy}`);
+		logger.debug(`  zeroMajorPolicy: ${inputs.zeroMajorPolicy}`);
+		logger.debug(`  ancestryCheck: ${inputs.ancestryCheck}`);
+		logger.debug(`  leaseRetries: ${inputs.leaseRetries}`);
+		logger.debug(`  retries: ${inputs.retry.retries} (retryDelay: ${inputs.retry.retryDelay}ms)`);
+		logger.debug(`  dryRun: ${inputs.dryRun}`);
+		logger.debug(`  jobSummary: ${inputs.jobSummary}`);
+		logger.debug(`  annotated: ${inputs.annotated}`);
+		if (annotated) {
+			logger.debug(`  tagMessage: ${inputs.tagMessage}`);
+			logger.debug(`  tagger: ${inputs.taggerName} <${inputs.taggerEmail}>`);
+		}
+		logger.debug(`  signingFormat: ${inputs.signingFormat}`);
 		logger.debug(`  verbose: ${inputs.verbose}`);
 
+		const backend = withRetryPolicy(getBackend(inputs, logger), inputs.retry, logger);
+
+		if (mode === "reconcile") {
+			await withLeaseRetries(() => reconcileFloatingTags(inputs, backend, logger), leaseRetries, backend, logger);
+			logger.debug("Action completed successfully");
+			return;
+		}
+		if (mode === "verify") {
+			await verifyFloatingTags(inputs, backend, logger);
+			logger.debug("Action completed successfully");
+			return;
+		}
+
 		// Determine if we're using a separate refTag for commit resolution
 		// IMPORTANT: refTag is ONLY used to find the commit SHA - it is NEVER parsed for version information
 		const usingSeparateRefTag = refTagInput && refTagInput !== tag;
@@ -62,12 +911,36 @@ export async function run(): Promise<void> {
 		// Extract version information from tag ONLY
 		// NOTE: We parse tag for version info, NOT refTag. refTag is only used to find the commit.
 		core.info(`Extracting version from tag: ${tag}`);
-		const versionInfo = parseVersion(tag, logger);
+		const versionInfo = parseVersion(tag, logger, scopeDelimiter, scheme);
+		core.setOutput("major", versionInfo.segments?.[0] ?? versionInfo.major);
+		core.setOutput("minor", versionInfo.segments?.[1] ?? versionInfo.minor);
+		// Two-component versions have no patch version
+		core.setOutput("patch", versionInfo.segments ? (versionInfo.segments[2] ?? "") : versionInfo.patch);
+		core.setOutput("prerelease", versionInfo.prerelease ?? "");
+		if (versionInfo.scope) {
+			core.info(`Tag ${tag} belongs to package "${versionInfo.scope}"`);
+			core.setOutput("scope", versionInfo.scope);
+		}
+
+		// With prerelease channels, prereleases move channel tags (e.g., v2-rc) and never the stable ones
+		const channel = getChannel(versionInfo, prereleaseChannels);
+		if (versionInfo.isPrerelease && prereleaseChannels.size > 0) {
+			if (!channel) {
+				const message = `Prerelease "${versionInfo.prerelease}" of tag "${tag}" does not match any of the prereleaseChannels (${[...prereleaseChannels.keys()].join(", ")})`;
+				if (unknownChannelPolicy === "fail") {
+					throw new Error(message);
+				}
+				core.info(`${message}. No floating tags were updated (unknownChannelPolicy=ignore)`);
+				return;
+			}
+			core.info(`Prerelease ${tag} updates the "${channel}" channel tags`);
+			core.setOutput("channel", channel);
+		}
 
 		// Check for prerelease
 		// Only apply prerelease check if we're using the same tag for both version extraction and commit reference
 		// If refTag is provided separately, we allow prerelease tags for version extraction
-		if (versionInfo.isPrerelease && ignorePrerelease && !usingSeparateRefTag) {
+		if (versionInfo.isPrerelease && ignorePrerelease && !usingSeparateRefTag && !channel) {
 			core.warning(`Tag ${tag} is a prerelease version (${versionInfo.prerelease}). Skipping due to ignorePrerelease=true`);
 			core.setFailed(`Prerelease versions are ignored. Tag "${tag}" contains prerelease identifier "${versionInfo.prerelease}"`);
 			return;
@@ -79,80 +952,31 @@ export async function run(): Promise<void> {
 					logger.info(`ℹ️  Prerelease version detected in tag "${tag}" but proceeding (using separate refTag "${refTag}" for commit reference): ${versionInfo.prerelease}`);
 				}
 				logger.debug(`Prerelease version detected in tag "${tag}" but proceeding (using separate refTag "${refTag}" for commit reference): ${versionInfo.prerelease}`);
-			} else {
+			} else if (!channel) {
 				logger.debug(`Prerelease version detected but proceeding (ignorePrerelease=false): ${versionInfo.prerelease}`);
 			}
 		}
 
-		// Get commit SHA for reference tag
-		// IMPORTANT: refTag is used ONLY to resolve the commit SHA (via git rev-parse)
-		// We do NOT parse refTag for version information - only tag is parsed for that
-		const commitSha = await getCommitSha(refTag, logger);
-
-		// Show initial summary of what will be done
-		const majorTagName = createTagName(prefix, versionInfo.major);
-		core.info(`📋 Plan: Will create/update floating tags pointing to commit ${commitSha.substring(0, 7)}`);
-		core.info(`   - Major tag: ${majorTagName}`);
-		if (updateMinor) {
-			const plannedMinorTagName = createTagName(prefix, versionInfo.major, versionInfo.minor);
-			core.info(`   - Minor tag: ${plannedMinorTagName}`);
+		// Determine which floating tags to maintain and reject unusable names before any tag is touched
+		const floatingTags = getFloatingTags(inputs, versionInfo, channel);
+		if (versionInfo.major === 0 && zeroMajorPolicy !== "float" && levels.includes("major")) {
+			core.info(`Tag ${tag} is a pre-1.0 release: ${zeroMajorPolicy === "skip" ? "the major tag is not moved" : "its minor tag is maintained instead of the major tag"} (zeroMajorPolicy=${zeroMajorPolicy})`);
 		}
-
-		// Create/update major version tag
-		core.info(`Creating/updating major tag: ${majorTagName}`);
-
-		const majorTagResult = await createOrUpdateTag(majorTagName, commitSha, logger);
-
-		// Push major tag
-		await pushTag(majorTagName, majorTagResult.updated, logger);
-
-		// Verify major tag (only in verbose mode to avoid unnecessary git calls)
-		if (logger.verbose) {
-			const verified = await verifyTag(majorTagName, commitSha, logger);
-			if (!verified) {
-				core.warning(`Tag ${majorTagName} verification failed`);
-			}
+		if (floatingTags.length === 0) {
+			core.info("No floating tags were updated");
+			return;
 		}
+		await validateFloatingTags(floatingTags, logger);
 
-		// Set major tag output
-		core.setOutput("majorTag", majorTagName);
-
-		// Track results for final summary
-		const results: Array<{ tag: string; created: boolean; updated: boolean }> = [{ tag: majorTagName, created: majorTagResult.created, updated: majorTagResult.updated }];
-
-		// Create/update minor version tag if requested
-		if (updateMinor) {
-			const minorTagName = createTagName(prefix, versionInfo.major, versionInfo.minor);
-			core.info(`Creating/updating minor tag: ${minorTagName}`);
-
-			const minorTagResult = await createOrUpdateTag(minorTagName, commitSha, logger);
-
-			// Push minor tag
-			await pushTag(minorTagName, minorTagResult.updated, logger);
-
-			// Verify minor tag (only in verbose mode to avoid unnecessary git calls)
-			if (logger.verbose) {
-				const verified = await verifyTag(minorTagName, commitSha, logger);
-				if (!verified) {
-					core.warning(`Tag ${minorTagName} verification failed`);
-				}
-			}
+		// Get commit SHA for reference tag
+		// IMPORTANT: refTag is used ONLY to resolve the commit SHA (via git rev-parse)
+		// We do NOT parse refTag for version information - only tag is parsed for that
+		const commitSha = await backend.getCommitSha(refTag, logger);
+		core.setOutput("commitSha", commitSha);
 
-			// Set minor tag output
-			core.setOutput("minorTag", minorTagName);
-			results.push({ tag: minorTagName, created: minorTagResult.created, updated: minorTagResult.updated });
-		}
+		// Retry the whole computation when another workflow moved a floating tag in the meantime
+		await withLeaseRetries(() => updateFloatingTags(inputs, versionInfo, commitSha, floatingTags, backend, logger), leaseRetries, backend, logger);
 
-		// Final summary
-		core.info("✅ Successfully completed floating version tag operations");
-		core.info(`📊 Summary (all tags point to commit ${commitSha.substring(0, 7)}):`);
-		for (const result of results) {
-			if (result.created) {
-				core.info(`   ✓ Created: ${result.tag}`);
-			} else if (result.updated) {
-				core.info(`   ↻ Updated: ${result.tag}`);
-			}
-		}
 		logger.debug("Action completed successfully");
 	} catch (error) {
 		if (error instanceof Error) {
@@ -0,0 +1,99 @@
+import * as core from "@actions/core";
+import { LeaseRejectedError } from "./git";
+import { Logger } from "./logger";
+import { RetryOptions, TagBackend } from "./types";
+
+/**
+ * Errors that fail the same way however often they are retried (checked first)
+ */
+const PERMANENT_ERRORS: RegExp[] = [
+	/authentication failed/i,
+	/could not read (username|password)/i,
+	/permission (to \S+ )?denied/i,
+	/resource not accessible/i,
+	/bad credentials/i,
+	/failed with status (401|404|422)\b/,
+	/protected/i,
+	/hook declined/i,
+	/stale info/i,
+	/non-fast-forward/i,
+	/already exists/i,
+	/does not appear to be a git repository/i,
+];
+
+/**
+ * Errors caused by the network or a busy remote that usually go away on their own
+ */
+const TRANSIENT_ERRORS: RegExp[] = [
+	/could not resolve host/i,
+	/connection (reset|refused|timed out)/i,
+	/operation timed out/i,
+	/the remote end hung up unexpectedly/i,
+	/early EOF/i,
+	/RPC failed/i,
+	/(cannot|failed to|unable to) lock/i,
+	/(returned error|status):? (429|5\d\d)\b/i,
+	/rate limit/i,
+	/fetch failed|ECONNRESET|ETIMEDOUT|EAI_AGAIN/,
+	/gnutls|TLS connection|SSL_(read|connect)/i,
+];
+
+/**
+ * Classifies a failed git or GitHub API operation (its message carries git's stderr or the HTTP status)
+ * Unknown errors are not retried, so an unexpected failure surfaces right away
+ */
+export function isTransientError(error: unknown): boolean {
+	if (error instanceof LeaseRejectedError) {
+		return false;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	if (PERMANENT_ERRORS.some((pattern) => pattern.test(message))) {
+		return false;
+	}
+	return TRANSIENT_ERRORS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff (retryDelay, then twice as long each time)
+ */
+export async function withRetries<T>(operation: () => Promise<T>, description: string, options: RetryOptions, logger: Logger): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation();
+		} catch (error) {
+			if (attempt > options.retries || !isTransientError(error)) {
+				if (attempt > 1) {
+					logger.debug(`${description} failed after ${attempt} attempt(s)`);
+				}
+				throw error;
+			}
+			const delay = options.retryDelay * 2 ** (attempt - 1);
+			const message = error instanceof Error ? error.message : String(error);
+			core.warning(`${description} failed: ${message}. Retrying in ${delay}ms (retry ${attempt} of ${options.retries})`);
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+}
+
+/**
+ * Wraps the backend operations listed below so transient failures are retried; the other operations pass through unchanged
+ * getCommitSha, listTags and isAncestor are wrapped for every backend, although the git backend runs them locally, where they never fail transiently
+ * Pushes of backends that retry each write themselves (retriesPushes) are not retried as a whole
+ */
+export function withRetryPolicy(backend: TagBackend, options: RetryOptions, logger: Logger): TagBackend {
+	if (options.retries === 0) {
+		return backend;
+	}
+
+	return {
+		...backend,
+		getCommitSha: (ref, log) => withRetries(() => backend.getCommitSha(ref, log), `Resolving ${ref}`, options, logger),
+		listTags: (log) => withRetries(() => backend.listTags(log), "Listing tags", options, logger),
+		listRemoteTags: (log) => withRetries(() => backend.listRemoteTags(log), "Listing remote tags", options, logger),
+		getRemoteTags: (tagNames, log) => withRetries(() => backend.getRemoteTags(tagNames, log), "Reading remote tags", options, logger),
+		fetchTags: (log) => withRetries(() => backend.fetchTags(log), "Fetching tags", options, logger),
+		pushTags: backend.retriesPushes ? backend.pushTags : (pushes, log) => withRetries(() => backend.pushTags(pushes, log), "Pushing tags", options, logger),
+		isAncestor: (ancestorSha, commitSha, log) => withRetries(() => backend.isAncestor(ancestorSha, commitSha, log), `Comparing ${ancestorSha.substring(0, 7)} with ${commitSha.substring(0, 7)}`, options, logger),
+		restoreRemoteTag: (restore, log) => withRetries(() => backend.restoreRemoteTag(restore, log), `Restoring remote tag ${restore.tagName}`, options, logger),
+	};
+}
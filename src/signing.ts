@@ -0,0 +1,138 @@
+import * as core from "@actions/core";
+import { exec } from "@actions/exec";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SigningConfig, SigningFormat } from "./types";
+import { Logger } from "./logger";
+
+/**
+ * Runs a command and returns its stdout, failing with the command's stderr
+ */
+async function run(command: string, args: string[], logger: Logger): Promise<string> {
+	let stdout = "";
+	let stderr = "";
+	const exitCode = await exec(command, args, {
+		listeners: {
+			stdout: (data: Buffer) => {
+				stdout += data.toString();
+			},
+			stderr: (data: Buffer) => {
+				stderr += data.toString();
+			},
+		},
+		silent: !logger.verbose,
+		ignoreReturnCode: true,
+	});
+
+	if (exitCode !== 0) {
+		throw new Error(`${command} exited with code ${exitCode}: ${stderr.trim()}`);
+	}
+	return stdout;
+}
+
+/**
+ * Writes a file readable only by the current user
+ */
+function writePrivateFile(filePath: string, content: string): void {
+	fs.writeFileSync(filePath, content.endsWith("\n") ? content : `${content}\n`, { mode: 0o600 });
+}
+
+/**
+ * Imports a GPG private key into an isolated keyring
+ * git is pointed at a wrapper script so the keyring and passphrase never touch the runner's own GnuPG setup
+ */
+async function setupGpgSigning(tempDir: string, key: string, passphrase: string, logger: Logger): Promise<string[]> {
+	const homeDir = path.join(tempDir, "gnupg");
+	fs.mkdirSync(homeDir, { mode: 0o700 });
+
+	const keyFile = path.join(tempDir, "signing-key.asc");
+	writePrivateFile(keyFile, key);
+
+	const gpgArgs = ["--homedir", homeDir, "--batch", "--pinentry-mode", "loopback"];
+	if (passphrase) {
+		const passphraseFile = path.join(tempDir, "passphrase");
+		fs.writeFileSync(passphraseFile, passphrase, { mode: 0o600 });
+		gpgArgs.push("--passphrase-file", passphraseFile);
+	}
+
+	core.info("Importing GPG signing key");
+	try {
+		await run("gpg", [...gpgArgs, "--import", keyFile], logger);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		throw new Error(`Failed to import GPG signing key: ${message}`);
+	}
+
+	// The first fingerprint listed belongs to the primary secret key
+	const listing = await run("gpg", ["--homedir", homeDir, "--batch", "--with-colons", "--list-secret-keys"], logger);
+	const fingerprint = listing
+		.split("\n")
+		.find((line) => line.startsWith("fpr:"))
+		?.split(":")[9];
+	if (!fingerprint) {
+		throw new Error("Failed to import GPG signing key: no secret key found in signingKey");
+	}
+	logger.debug(`Imported GPG key with fingerprint ${fingerprint}`);
+
+	const wrapper = path.join(tempDir, "gpg.sh");
+	const quotedArgs = gpgArgs.map((arg) => `'${arg.replace(/'/g, "'\\''")}'`).join(" ");
+	fs.writeFileSync(wrapper, `#!/bin/sh\nexec gpg ${quotedArgs} "$@"\n`, { mode: 0o700 });
+
+	return ["-c", "gpg.format=openpgp", "-c", `gpg.program=${wrapper}`, "-c", `user.signingkey=${fingerprint}`];
+}
+
+/**
+ * Writes an SSH private key and an allowed signers file trusting it for the tagger email
+ */
+async function setupSshSigning(tempDir: string, key: string, taggerEmail: string, logger: Logger): Promise<string[]> {
+	const keyFile = path.join(tempDir, "signing-key");
+	writePrivateFile(keyFile, key);
+
+	let publicKey: string;
+	try {
+		publicKey = (await run("ssh-keygen", ["-y", "-f", keyFile], logger)).trim();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		throw new Error(`Failed to read SSH signing key (passphrase-protected SSH keys are not supported): ${message}`);
+	}
+	logger.debug(`Using SSH signing key ${publicKey}`);
+
+	const allowedSigners = path.join(tempDir, "allowed_signers");
+	fs.writeFileSync(allowedSigners, `${taggerEmail} ${publicKey}\n`);
+
+	return ["-c", "gpg.format=ssh", "-c", `user.signingkey=${keyFile}`, "-c", `gpg.ssh.allowedSignersFile=${allowedSigners}`];
+}
+
+/**
+ * Prepares tag signing with the given key
+ * Key material is written to a private temporary directory that cleanupSigning removes
+ */
+export async function setupSigning(format: SigningFormat, key: string, passphrase: string, taggerEmail: string, logger: Logger): Promise<SigningConfig> {
+	if (!key) {
+		throw new Error(`signingKey is required when signingFormat is "${format}"`);
+	}
+
+	const tempDir = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), "floating-tags-signing-"));
+	try {
+		const gitConfig = format === "gpg" ? await setupGpgSigning(tempDir, key, passphrase, logger) : await setupSshSigning(tempDir, key, taggerEmail, logger);
+		core.info(`Floating tags will be signed (${format})`);
+		return { format, gitConfig, tempDir };
+	} catch (error) {
+		await cleanupSigning({ format, gitConfig: [], tempDir }, logger);
+		throw error;
+	}
+}
+
+/**
+ * Removes temporary key material and stops the GPG agent started for the isolated keyring
+ */
+export async function cleanupSigning(config: SigningConfig, logger: Logger): Promise<void> {
+	logger.debug(`Removing signing key material from ${config.tempDir}`);
+
+	const homeDir = path.join(config.tempDir, "gnupg");
+	if (fs.existsSync(homeDir)) {
+		await exec("gpgconf", ["--homedir", homeDir, "--kill", "gpg-agent"], { silent: true, ignoreReturnCode: true }).catch(() => undefined);
+	}
+	fs.rmSync(config.tempDir, { recursive: true, force: true });
+}
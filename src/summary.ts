@@ -0,0 +1,82 @@
+import * as core from "@actions/core";
+import { Logger } from "./logger";
+import { TagAction, TagPlanEntry } from "./types";
+
+const ACTION_LABELS: Record<TagAction, string> = {
+	create: "Created",
+	update: "Updated",
+	noop: "Unchanged",
+	skip: "Skipped",
+};
+
+const DRY_RUN_ACTION_LABELS: Record<TagAction, string> = {
+	create: "Would create",
+	update: "Would update",
+	noop: "Unchanged",
+	skip: "Skipped",
+};
+
+/**
+ * Renders a short SHA, linked to the commit on GitHub when the repository is known
+ */
+function formatCommit(sha: string | null): string {
+	if (!sha) {
+		return "<em>none</em>";
+	}
+	const short = `<code>${sha.substring(0, 7)}</code>`;
+	const repository = process.env.GITHUB_REPOSITORY;
+	if (!repository) {
+		return short;
+	}
+	const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+	return `<a href="${serverUrl}/${repository}/commit/${sha}">${short}</a>`;
+}
+
+/**
+ * Writes the outcome of the run to the job summary shown on the workflow run page
+ * A table of the floating tags with their old and new targets, followed by the skipped tags and why
+ * Does nothing outside of GitHub Actions (GITHUB_STEP_SUMMARY not set) and never fails the action
+ */
+export async function writeJobSummary(title: string, plan: TagPlanEntry[], dryRun: boolean, logger: Logger): Promise<void> {
+	if (!process.env.GITHUB_STEP_SUMMARY) {
+		logger.debug("GITHUB_STEP_SUMMARY is not set, no job summary written");
+		return;
+	}
+
+	const labels = dryRun ? DRY_RUN_ACTION_LABELS : ACTION_LABELS;
+	const applied = plan.filter((entry) => entry.action !== "skip");
+	const skipped = plan.filter((entry) => entry.action === "skip");
+
+	try {
+		core.summary.addHeading(dryRun ? `${title} (dry run)` : title, 2);
+		if (applied.length > 0) {
+			core.summary.addTable([
+				[
+					{ data: "Tag", header: true },
+					{ data: "Level", header: true },
+					{ data: "Action", header: true },
+					{ data: "Previous", header: true },
+					{ data: "New", header: true },
+					{ data: "Source", header: true },
+				],
+				...applied.map((entry) => [
+					`<code>${entry.tagName}</code>`,
+					entry.level,
+					labels[entry.action],
+					formatCommit(entry.currentSha),
+					formatCommit(entry.newSha),
+					`<code>${entry.sourceTag}</code>`,
+				]),
+			]);
+		} else {
+			core.summary.addRaw("No floating tags were updated.", true);
+		}
+		if (skipped.length > 0) {
+			core.summary.addHeading("Skipped", 3).addList(skipped.map((entry) => `<code>${entry.tagName}</code> (${entry.level}): ${entry.reason}`));
+		}
+		await core.summary.write();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		core.warning(`Failed to write the job summary: ${message}`);
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * Values available to a template, keyed by placeholder name
+ */
+export type TemplateValues = Record<string, string | number | undefined>;
+
+/**
+ * Replaces {placeholder} tokens in a template with the given values
+ * Missing optional values (e.g., no prerelease) render as an empty string
+ * Throws if the template references a placeholder that is not available
+ */
+export function renderTemplate(template: string, values: TemplateValues, inputName: string): string {
+	return template.replace(/\{([^{}]*)\}/g, (token: string, name: string) => {
+		if (!Object.prototype.hasOwnProperty.call(values, name)) {
+			const available = Object.keys(values)
+				.map((key) => `{${key}}`)
+				.join(", ");
+			throw new Error(`Unknown placeholder ${token} in ${inputName} "${template}". Available placeholders: ${available}`);
+		}
+		const value = values[name];
+		return value === undefined ? "" : String(value);
+	});
+}
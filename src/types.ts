@@ -1,3 +1,5 @@
+import { Logger } from "./logger";
+
 /**
  * Version information extracted from a tag
  */
@@ -9,20 +11,285 @@ export interface VersionInfo {
   isPrerelease: boolean;
   prerelease?: string;
   build?: string;
+  /** Package scope of a monorepo tag (e.g., 'api' for api@1.4.2) */
+  scope?: string;
+  /** Text before the version, after the package scope (e.g., 'release-' for release-5.1.0, 'v' for v1.2.3, '' for 1.2.3) */
+  prefix?: string;
+  /** Fourth component of four-component versions (e.g., 4 for 1.2.3.4) */
+  revision?: number;
+  /**
+   * Version segments, kept for CalVer versions whose zero padding is significant (e.g., ['24', '04', '1'])
+   * and for versions with two or four components (e.g., ['1', '2'] or ['1', '2', '3', '4'])
+   */
+  segments?: string[];
+}
+
+/**
+ * How version tags are parsed and ordered
+ * - semver: major.minor.patch, or two to four numeric components as configured (e.g., 1.2 or 1.2.3.4)
+ * - calver: calendar versions laid out by a format (e.g., YYYY.0M.MICRO), ordered by their segments from left to right
+ */
+export type VersionSchemeName = "semver" | "calver";
+
+/**
+ * Versioning scheme of the repository's release tags
+ */
+export interface VersionScheme {
+  name: VersionSchemeName;
+  /** CalVer format: "."-separated tokens such as YYYY, YY, 0M, MM, DD, MICRO (only used by calver) */
+  calverFormat: string;
+  /** Number of numeric components of a version: 2, 3 or 4 (only used by semver) */
+  components: number;
+  /** User-supplied pattern with named groups (major, minor, patch, ...) replacing the built-in parsing */
+  versionPattern?: RegExp;
 }
 
 /**
  * Action input parameters
  */
 export interface ActionInputs {
+  mode: ActionMode;
+  backend: BackendName;
+  token: string;
   tag: string;
   refTag: string;
   prefix: string;
   updateMinor: boolean;
+  levels: FloatingTagLevel[];
+  latestTag: string;
+  majorTemplate: string;
+  minorTemplate: string;
+  patchTemplate: string;
+  scopeDelimiter: string;
+  scopeTemplate: string;
+  scheme: VersionScheme;
   ignorePrerelease: boolean;
+  /** Prerelease identifier -> channel name; empty when prerelease channels are disabled */
+  prereleaseChannels: Map<string, string>;
+  unknownChannelPolicy: UnknownChannelPolicy;
+  downgradePolicy: DowngradePolicy;
+  zeroMajorPolicy: ZeroMajorPolicy;
+  ancestryCheck: AncestryCheck;
+  leaseRetries: number;
+  /** How transient push and remote-query failures are retried */
+  retry: RetryOptions;
+  dryRun: boolean;
+  jobSummary: boolean;
+  annotated: boolean;
+  tagMessage: string;
+  taggerName: string;
+  taggerEmail: string;
+  signingFormat: SigningFormat | "none";
+  signingKey: string;
+  signingKeyPassphrase: string;
   verbose: boolean;
 }
 
+/**
+ * How the action determines the floating tags to update
+ * - update: point the floating tags of a single release to its commit
+ * - reconcile: point every floating tag to the highest release in its line, based on all version tags
+ * - verify: check that every floating tag on the remote points where reconcile would point it, without writing
+ */
+export type ActionMode = "update" | "reconcile" | "verify";
+
+/**
+ * How tags are read and written
+ * - git: the git CLI in the checked out repository, pushing to origin
+ * - github: the GitHub REST API, without a local clone
+ */
+export type BackendName = "git" | "github";
+
+/**
+ * Tag operations the action performs, implemented with the git CLI (git.ts) and the GitHub REST API (github.ts)
+ */
+export interface TagBackend {
+  getCommitSha(ref: string, logger: Logger): Promise<string>;
+  listTags(logger: Logger): Promise<string[]>;
+  /** Lists the tag names on the remote, including tags missing from a clone made without tags */
+  listRemoteTags(logger: Logger): Promise<string[]>;
+  getRemoteTags(tagNames: string[], logger: Logger): Promise<Map<string, RemoteTag>>;
+  fetchTags(logger: Logger): Promise<void>;
+  createOrUpdateTag(tagName: string, commitSha: string, logger: Logger, annotation?: TagAnnotation, signing?: SigningConfig): Promise<TagOperationResult>;
+  pushTags(pushes: TagPush[], logger: Logger): Promise<void>;
+  verifyTag(tagName: string, expectedSha: string, logger: Logger): Promise<boolean>;
+  getTagObjectSha(tagName: string, logger: Logger): Promise<string | undefined>;
+  restoreTag(tagName: string, objectSha: string | null, logger: Logger): Promise<void>;
+  restoreRemoteTag(restore: TagRestore, logger: Logger): Promise<void>;
+  isAncestor(ancestorSha: string, commitSha: string, logger: Logger): Promise<boolean>;
+  getCommitSubject(commitSha: string, logger: Logger): Promise<string | undefined>;
+  /** Set when pushTags writes the tags one by one and retries each write itself, so the whole push must not be retried */
+  retriesPushes?: boolean;
+  /** Set when listTags already reads the tags on the remote (no local tag store), so listRemoteTags would list the same tags again */
+  listsRemoteTags?: boolean;
+}
+
+/**
+ * Retry policy for transient network and remote failures
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying */
+  retries: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry */
+  retryDelay: number;
+}
+
+/**
+ * Connection settings of the GitHub REST API backend
+ */
+export interface GitHubBackendOptions {
+  token: string;
+  /** API base URL (e.g., https://api.github.com, or the GitHub Enterprise Server API URL) */
+  apiUrl: string;
+  /** owner/repo */
+  repository: string;
+  /** How each ref write of a push is retried; not retried when omitted */
+  retry?: RetryOptions;
+}
+
+/**
+ * What to do when a newer release already exists in a floating tag's line
+ * - skip: leave that floating tag untouched
+ * - fail: fail the action without touching any tag
+ * - allow: move the floating tag anyway
+ */
+export type DowngradePolicy = "skip" | "fail" | "allow";
+
+/**
+ * How the major floating tag follows pre-1.0 releases, where every minor version may break compatibility
+ * - float: move the major tag (v0) like for any other major version
+ * - skip: never touch the major tag of 0.x releases
+ * - minor-as-major: maintain the minor tag (v0.3) in place of the major tag of 0.x releases
+ */
+export type ZeroMajorPolicy = "float" | "skip" | "minor-as-major";
+
+/**
+ * What to do when a floating tag would move to a commit that does not descend from its current target
+ * - warn: move it anyway and report a warning
+ * - fail: fail the action without touching any tag
+ * - off: do not check
+ */
+export type AncestryCheck = "warn" | "fail" | "off";
+
+/**
+ * What to do with a prerelease whose identifier is not a configured channel
+ * - fail: fail the action without touching any tag
+ * - ignore: succeed without touching any tag
+ */
+export type UnknownChannelPolicy = "fail" | "ignore";
+
+/**
+ * Level of a floating tag (e.g., v2 is major, v2.3 is minor, v2.3.1 is patch for four-component versions, latest follows the newest release overall)
+ */
+export type FloatingTagLevel = "major" | "minor" | "patch" | "latest";
+
+/**
+ * A floating tag the action maintains for the version being released
+ */
+export interface FloatingTag {
+  level: FloatingTagLevel;
+  tagName: string;
+  /** Prerelease channel the tag follows (e.g., 'rc' for v2-rc); undefined for stable floating tags */
+  channel?: string;
+}
+
+/**
+ * A floating tag together with the release it should point to
+ */
+export interface FloatingTagTarget extends FloatingTag {
+  version: VersionInfo;
+  commitSha: string;
+}
+
+/**
+ * A floating tag whose remote target differs from the release it should point to, reported by verify mode
+ */
+export interface DriftedTag {
+  tagName: string;
+  level: FloatingTagLevel;
+  /** Release the floating tag should point to */
+  sourceTag: string;
+  expectedSha: string;
+  /** Commit the tag points to on the remote, null if it is missing */
+  actualSha: string | null;
+}
+
+/**
+ * A floating tag that was left untouched, and why
+ */
+export interface SkippedTag {
+  tagName: string;
+  level: FloatingTagLevel;
+  reason: string;
+}
+
+/**
+ * Message and tagger identity for annotated floating tags
+ */
+export interface TagAnnotation {
+  message: string;
+  taggerName: string;
+  taggerEmail: string;
+}
+
+/**
+ * Key type used to sign floating tags
+ */
+export type SigningFormat = "gpg" | "ssh";
+
+/**
+ * Prepared tag signing setup
+ */
+export interface SigningConfig {
+  format: SigningFormat;
+  /** `git -c` arguments that make `git tag -s` and `git tag -v` use the imported key */
+  gitConfig: string[];
+  /** Private directory holding the key material, removed after the run */
+  tempDir: string;
+}
+
+/**
+ * State of a tag on the remote, as reported by git ls-remote
+ */
+export interface RemoteTag {
+  /** Object the remote ref points to (the tag object for annotated tags) */
+  objectSha: string;
+  /** Commit the tag resolves to */
+  commitSha: string;
+}
+
+/**
+ * A tag to push, with the value the remote tag is expected to have
+ * expectedSha is null when the tag must not exist on the remote yet,
+ * and undefined when the remote tag is overwritten unconditionally
+ */
+export interface TagPush {
+  tagName: string;
+  expectedSha?: string | null;
+}
+
+/**
+ * A floating tag to put back on the remote after a failed update
+ * The remote tag is only restored while it still points to expectedSha (what the action pushed)
+ */
+export interface TagRestore {
+  tagName: string;
+  /** Object the remote tag pointed to before the update, null to delete a tag the update created */
+  previousSha: string | null;
+  expectedSha: string;
+}
+
+/**
+ * Where a floating tag pointed before the action touched it, locally and on the remote
+ */
+export interface TagSnapshot {
+  tagName: string;
+  /** Object of the local tag, null if it did not exist locally */
+  localSha: string | null;
+  /** Object of the remote tag, null if it did not exist on the remote */
+  remoteSha: string | null;
+}
+
 /**
  * Result of a tag operation
  */
@@ -31,4 +298,27 @@ export interface TagOperationResult {
   commitSha: string;
   created: boolean;
   updated: boolean;
+  /** The tag already pointed to the commit on the remote and was left alone */
+  unchanged: boolean;
+  /** Commit the tag pointed to on the remote before the update, null if it did not exist */
+  previousSha?: string | null;
+}
+
+/**
+ * What the action does (or would do, in dry-run mode) with a floating tag
+ */
+export type TagAction = "create" | "update" | "noop" | "skip";
+
+/**
+ * A planned floating tag operation, emitted as the `plan` output
+ */
+export interface TagPlanEntry {
+  tagName: string;
+  level: FloatingTagLevel;
+  /** Release the floating tag is moved to */
+  sourceTag: string;
+  currentSha: string | null;
+  newSha: string;
+  action: TagAction;
+  reason?: string;
 }
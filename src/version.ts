@@ -1,86 +1,312 @@
 import * as core from "@actions/core";
-import { VersionInfo } from "./types";
+import { FloatingTagLevel, VersionInfo, VersionScheme } from "./types";
 import { Logger } from "./logger";
 
 /**
- * Extracts version information from a tag name
- * Supports tags with or without 'v' prefix (e.g., 'v1.2.3' or '1.2.3')
+ * Pattern of one numeric version component
  */
-export function parseVersion(tag: string, logger: Logger): VersionInfo {
-	if (logger["verbose"]) { // Access private verbose property for special formatting
-		core.info(`  → Parsing version from tag: ${tag}`);
+const COMPONENT_PATTERN = "(\\d+)";
+
+/**
+ * Supported numbers of components of a numeric version: major.minor, major.minor.patch and major.minor.patch.revision
+ */
+export const VERSION_COMPONENTS: readonly number[] = [2, 3, 4];
+
+/**
+ * Optional prerelease and build metadata following the version
+ */
+const SUFFIX_PATTERN = "(?:-([^+]+))?(?:\\+(.+))?";
+
+/**
+ * Values each CalVer format token accepts (see https://calver.org)
+ * Tokens starting with 0 are zero-padded, the others must not be
+ */
+const CALVER_TOKENS: Record<string, string> = {
+	YYYY: "\\d{4}",
+	YY: "[1-9]\\d{0,2}|0",
+	"0Y": "\\d{2,3}",
+	MM: "1[0-2]|[1-9]",
+	"0M": "0[1-9]|1[0-2]",
+	WW: "5[0-3]|[1-4]\\d|[1-9]",
+	"0W": "0[1-9]|[1-4]\\d|5[0-3]",
+	DD: "3[01]|[12]\\d|[1-9]",
+	"0D": "0[1-9]|[12]\\d|3[01]",
+	MAJOR: "0|[1-9]\\d*",
+	MINOR: "0|[1-9]\\d*",
+	MICRO: "0|[1-9]\\d*",
+};
+
+/**
+ * Checks a CalVer format: three "."-separated tokens (e.g., YYYY.0M.MICRO or YY.MM.DD)
+ * Throws for unknown tokens or an unsupported number of segments
+ */
+export function validateCalVerFormat(format: string): void {
+	const tokens = format.split(".");
+	if (tokens.length !== 3 || tokens.some((token) => !Object.prototype.hasOwnProperty.call(CALVER_TOKENS, token))) {
+		throw new Error(`Invalid calverFormat "${format}". Expected 3 "."-separated tokens of: ${Object.keys(CALVER_TOKENS).join(", ")}`);
 	}
-	logger.debug(`Parsing version from tag: ${tag}`);
+}
 
+/**
+ * Named groups a versionPattern may capture besides the numeric components
+ */
+const OPTIONAL_PATTERN_GROUPS = ["prerelease", "build", "scope"];
+
+/**
+ * Gets the numeric components of a version, in order (e.g., major, minor, patch for three-component versions)
+ */
+function getComponentNames(scheme?: VersionScheme): string[] {
+	const count = scheme?.name === "calver" ? 3 : (scheme?.components ?? 3);
+	return ["major", "minor", "patch", "revision"].slice(0, count);
+}
+
+/**
+ * Compiles a user-supplied version pattern (e.g., '^build-\\d+-(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)$')
+ * Throws if it is not a valid regular expression or lacks a named group for one of the version's components
+ */
+export function compileVersionPattern(source: string, scheme: VersionScheme): RegExp {
+	let pattern: RegExp;
+	try {
+		// Match indices locate the version in the tag, so the text before it can name the floating tags (prefix: auto)
+		pattern = new RegExp(source, "d");
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid versionPattern "${source}": ${message}`);
+	}
+
+	const groups = [...source.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map((group) => group[1]);
+	const missing = getComponentNames(scheme).filter((name) => !groups.includes(name));
+	if (missing.length > 0) {
+		throw new Error(`Invalid versionPattern "${source}": missing named group(s) ${missing.map((name) => `(?<${name}>...)`).join(", ")}. Optional groups: ${OPTIONAL_PATTERN_GROUPS.join(", ")}`);
+	}
+	return pattern;
+}
+
+/**
+ * Matches a tag name against the user-supplied version pattern
+ * Returns the match, and the first component that was not captured as a number (undefined when the match is a version)
+ */
+function matchVersionPattern(tagName: string, pattern: RegExp, scheme: VersionScheme): { match: RegExpMatchArray | null; invalid?: string } {
+	const match = tagName.match(pattern);
+	const invalid = getComponentNames(scheme).find((name) => !/^\d+$/.test(match?.groups?.[name] ?? ""));
+	return { match, invalid };
+}
+
+/**
+ * Gets the pattern matching the version of a scheme, without prefix and suffix
+ * Captures each segment: the components of a numeric version (three by default) or the three CalVer segments
+ */
+function getVersionPattern(scheme?: VersionScheme): string {
+	if (scheme?.name !== "calver") {
+		return Array<string>(scheme?.components ?? 3).fill(COMPONENT_PATTERN).join("\\.");
+	}
+	validateCalVerFormat(scheme.calverFormat);
+	return scheme.calverFormat
+		.split(".")
+		.map((token) => `(${CALVER_TOKENS[token]})`)
+		.join("\\.");
+}
+
+/**
+ * Splits a monorepo tag (e.g., 'api@1.4.2' or 'web/v3.0.1') into its package scope and version part
+ * The scope ends at the first delimiter followed by a version, so scopes may contain the delimiter (e.g., '@org/api@1.2.3')
+ */
+function splitScope(tagName: string, scopeDelimiter: string, scheme?: VersionScheme): { scope?: string; versionPart: string } {
+	const versionRegex = new RegExp(`^v?${getVersionPattern(scheme)}${SUFFIX_PATTERN}$`);
+	for (let index = tagName.indexOf(scopeDelimiter, 1); index > 0; index = tagName.indexOf(scopeDelimiter, index + 1)) {
+		const versionPart = tagName.substring(index + scopeDelimiter.length);
+		if (versionRegex.test(versionPart)) {
+			return { scope: tagName.substring(0, index), versionPart };
+		}
+	}
+	return { versionPart: tagName };
+}
+
+/**
+ * Extracts the version portion of a tag name, following the versioning scheme (semver by default)
+ * With a scope delimiter, the package scope of monorepo tags is captured as well
+ * Returns null when the tag does not contain a version
+ */
+function extractVersion(tag: string, logger?: Logger, scopeDelimiter?: string, scheme?: VersionScheme): VersionInfo | null {
 	// Remove 'refs/tags/' prefix if present
 	let tagName = tag.replace(/^refs\/tags\//, "");
 
+	if (scheme?.versionPattern) {
+		return extractVersionWithPattern(tag, tagName, scheme, logger);
+	}
+
+	let scope: string | undefined;
+	if (scopeDelimiter) {
+		({ scope, versionPart: tagName } = splitScope(tagName, scopeDelimiter, scheme));
+		if (scope) {
+			if (logger?.verbose) {
+				core.info(`  → Detected package scope: ${scope}`);
+			}
+			logger?.debug(`Detected package scope: ${scope}`);
+		}
+	}
+
 	// Auto-detect and handle 'v' prefix
 	const hasVPrefix = tagName.startsWith("v");
 	if (hasVPrefix) {
-		if (logger.verbose) {
+		if (logger?.verbose) {
 			core.info(`  → Detected 'v' prefix, will strip for parsing`);
 		}
-		logger.debug(`Detected 'v' prefix, will strip for parsing`);
+		logger?.debug(`Detected 'v' prefix, will strip for parsing`);
 		tagName = tagName.substring(1);
 	}
 
-	// Parse semantic version: major.minor.patch[-prerelease][+build]
+	// Parse version: major.minor.patch[-prerelease][+build] (or the configured number of components, or the CalVer format's segments)
 	// Try matching version pattern directly first
-	let versionRegex = /^(\d+)\.(\d+)\.(\d+)(?:-([^+]+))?(?:\+(.+))?$/;
+	const versionPattern = getVersionPattern(scheme);
+	let versionRegex = new RegExp(`^${versionPattern}${SUFFIX_PATTERN}$`);
 	let match = tagName.match(versionRegex);
 
 	// If no match, try to extract version from tags with custom prefixes (e.g., 'release-5.1.0')
 	if (!match) {
-		// Find the first occurrence of digit.digit.digit pattern anywhere in the string
-		versionRegex = /(\d+)\.(\d+)\.(\d+)(?:-([^+]+))?(?:\+(.+))?$/;
+		// Find the first occurrence of the version pattern anywhere in the string
+		// It must start a number, so a version with more components (e.g., 1.2.3.4) is not read as a shorter one (2.3.4)
+		versionRegex = new RegExp(`(?<![\\d.])${versionPattern}${SUFFIX_PATTERN}$`);
 		match = tagName.match(versionRegex);
 
 		if (match) {
-			if (logger.verbose) {
+			if (logger?.verbose) {
 				core.info(`  → Extracted version from custom prefix tag: ${match[0]}`);
 			}
-			logger.debug(`Extracted version from custom prefix tag: ${match[0]}`);
+			logger?.debug(`Extracted version from custom prefix tag: ${match[0]}`);
 		}
 	}
 
 	if (!match) {
-		throw new Error(`Invalid semantic version format: ${tag}. Expected format: v1.2.3 or 1.2.3 (with optional prerelease/build)`);
+		return null;
 	}
 
-	const major = parseInt(match[1], 10);
-	const minor = parseInt(match[2], 10);
-	const patch = parseInt(match[3], 10);
-	const prerelease = match[4];
-	const build = match[5];
-	const isPrerelease = !!prerelease;
+	const count = getComponentNames(scheme).length;
+	// Everything before the version is its prefix (e.g., 'v' or 'release-')
+	const prefix = `${hasVPrefix ? "v" : ""}${tagName.substring(0, match.index)}`;
+	return createVersionInfo(tag, match.slice(1, count + 1), { prerelease: match[count + 1], build: match[count + 2], scope, prefix }, scheme);
+}
 
+/**
+ * Builds the version information of a tag from its components as written (e.g., ['1', '2', '3'] or the CalVer ['24', '04', '1'])
+ */
+function createVersionInfo(tag: string, components: string[], extras: { prerelease?: string; build?: string; scope?: string; prefix: string }, scheme?: VersionScheme): VersionInfo {
 	const versionInfo: VersionInfo = {
-		major,
-		minor,
-		patch,
+		major: parseInt(components[0], 10),
+		minor: parseInt(components[1], 10),
+		// Two-component versions (e.g., v1.2) are ordered as if their patch version was 0
+		patch: components[2] === undefined ? 0 : parseInt(components[2], 10),
 		original: tag,
-		isPrerelease,
-		prerelease,
-		build,
+		isPrerelease: !!extras.prerelease,
+		prerelease: extras.prerelease,
+		build: extras.build,
+		scope: extras.scope,
+		prefix: extras.prefix,
 	};
+	if (scheme?.name === "calver") {
+		// CalVer segments keep their zero padding (e.g., v24.04 must not become v24.4)
+		versionInfo.segments = components;
+	} else if (components.length !== 3) {
+		versionInfo.segments = components.map((component) => String(parseInt(component, 10)));
+	}
+	if (components.length === 4) {
+		versionInfo.revision = parseInt(components[3], 10);
+	}
+	return versionInfo;
+}
+
+/**
+ * Extracts the version of a tag name with the user-supplied version pattern instead of the built-in parsing
+ * Returns null when the pattern does not match or does not capture every component as a number
+ */
+function extractVersionWithPattern(tag: string, tagName: string, scheme: VersionScheme, logger?: Logger): VersionInfo | null {
+	const { match, invalid } = matchVersionPattern(tagName, scheme.versionPattern!, scheme);
+	if (!match?.groups || invalid) {
+		return null;
+	}
+	if (logger?.verbose) {
+		core.info(`  → Matched versionPattern: ${match[0]}`);
+	}
+	logger?.debug(`Matched versionPattern: ${match[0]}`);
+
+	const { groups } = match;
+	// The prefix is the text between the scope (if captured) and the major version
+	const scopeEnd = match.indices?.groups?.scope?.[1] ?? 0;
+	const majorStart = match.indices?.groups?.major?.[0] ?? scopeEnd;
+	return createVersionInfo(
+		tag,
+		getComponentNames(scheme).map((name) => groups[name]),
+		{ prerelease: groups.prerelease || undefined, build: groups.build || undefined, scope: groups.scope || undefined, prefix: tagName.substring(scopeEnd, majorStart) },
+		scheme,
+	);
+}
+
+/**
+ * Explains why a tag is not a version according to the user-supplied version pattern, showing what was matched
+ */
+function describePatternMismatch(tag: string, scheme: VersionScheme): string {
+	const tagName = tag.replace(/^refs\/tags\//, "");
+	const { match, invalid } = matchVersionPattern(tagName, scheme.versionPattern!, scheme);
+	if (!match) {
+		return `Tag "${tagName}" does not match versionPattern /${scheme.versionPattern!.source}/`;
+	}
+	const captured = Object.entries(match.groups ?? {})
+		.map(([name, value]) => `${name}=${value === undefined ? "(none)" : `"${value}"`}`)
+		.join(", ");
+	return `versionPattern /${scheme.versionPattern!.source}/ matched "${match[0]}" in tag "${tagName}", but group "${invalid}" is not a number (${captured})`;
+}
+
+/**
+ * Extracts version information from a tag name
+ * Supports tags with or without 'v' prefix (e.g., 'v1.2.3' or '1.2.3'), or any layout with a user-supplied version pattern
+ */
+export function parseVersion(tag: string, logger: Logger, scopeDelimiter?: string, scheme?: VersionScheme): VersionInfo {
+	if (logger["verbose"]) { // Access private verbose property for special formatting
+		core.info(`  → Parsing version from tag: ${tag}`);
+	}
+	logger.debug(`Parsing version from tag: ${tag}`);
+
+	const versionInfo = extractVersion(tag, logger, scopeDelimiter, scheme);
+
+	if (!versionInfo && scheme?.versionPattern) {
+		throw new Error(describePatternMismatch(tag, scheme));
+	}
+	if (!versionInfo && scheme?.name === "calver") {
+		throw new Error(`Invalid calendar version format: ${tag}. Expected format: ${scheme.calverFormat} with optional "v" prefix (with optional prerelease/build)`);
+	}
+	if (!versionInfo) {
+		const example = ["1", "2", "3", "4"].slice(0, scheme?.components ?? 3).join(".");
+		throw new Error(`Invalid semantic version format: ${tag}. Expected format: v${example} or ${example} (with optional prerelease/build)`);
+	}
+
+	const { major, minor, patch, revision, prerelease, build, isPrerelease, scope, prefix } = versionInfo;
 
 	if (logger["verbose"]) { // Access private verbose property for special formatting
 		core.info(`  → Parsed version components:`);
 		core.info(`    Major: ${major}`);
 		core.info(`    Minor: ${minor}`);
 		core.info(`    Patch: ${patch}`);
+		if (revision !== undefined) {
+			core.info(`    Revision: ${revision}`);
+		}
 		core.info(`    Prerelease: ${prerelease || "none"}`);
 		core.info(`    Build: ${build || "none"}`);
 		core.info(`    Is Prerelease: ${isPrerelease}`);
+		core.info(`    Scope: ${scope || "none"}`);
+		core.info(`    Prefix: ${prefix || "none"}`);
 	} else {
 		logger.debug(`Parsed version components:`);
 		logger.debug(`  Major: ${major}`);
 		logger.debug(`  Minor: ${minor}`);
 		logger.debug(`  Patch: ${patch}`);
+		if (revision !== undefined) {
+			logger.debug(`  Revision: ${revision}`);
+		}
 		logger.debug(`  Prerelease: ${prerelease || "none"}`);
 		logger.debug(`  Build: ${build || "none"}`);
 		logger.debug(`  Is Prerelease: ${isPrerelease}`);
+		logger.debug(`  Scope: ${scope || "none"}`);
+		logger.debug(`  Prefix: ${prefix || "none"}`);
 	}
 
 	return versionInfo;
@@ -95,3 +321,114 @@ export function createTagName(prefix: string, major: number, minor?: number): st
 	}
 	return `${prefix}${major}`;
 }
+
+/**
+ * Formats a version without prefix or build metadata (e.g., '1.2.3', '1.2.3-rc.1', '1.2.3.4' or the CalVer '24.04.1')
+ */
+export function formatVersion(version: VersionInfo): string {
+	const base = version.segments ? version.segments.join(".") : `${version.major}.${version.minor}.${version.patch}`;
+	return version.prerelease ? `${base}-${version.prerelease}` : base;
+}
+
+/**
+ * Gets the prerelease identifier naming a version's channel (e.g., 'rc' for 1.2.3-rc.1 or 1.2.3-RC1)
+ * Returns undefined for stable versions and prereleases without an alphabetic identifier (e.g., 1.2.3-0)
+ */
+export function getPrereleaseIdentifier(version: VersionInfo): string | undefined {
+	if (!version.prerelease) {
+		return undefined;
+	}
+	const identifier = version.prerelease
+		.split(".")[0]
+		.toLowerCase()
+		.replace(/[-_]?\d+$/, "");
+	return /^[a-z][a-z0-9-]*$/.test(identifier) ? identifier : undefined;
+}
+
+/**
+ * Extracts version information from a tag name without logging
+ * Returns undefined for tags that do not contain a version (e.g., floating tags like 'v1', or 'v1.2.3' when versions have four components)
+ */
+export function tryParseVersion(tag: string, scopeDelimiter?: string, scheme?: VersionScheme): VersionInfo | undefined {
+	return extractVersion(tag, undefined, scopeDelimiter, scheme) ?? undefined;
+}
+
+/**
+ * Compares two prerelease identifier strings using semver precedence rules
+ */
+function comparePrerelease(a: string | undefined, b: string | undefined): number {
+	// A version without prerelease has higher precedence than one with a prerelease
+	if (!a || !b) {
+		if (a === b) {
+			return 0;
+		}
+		return a ? -1 : 1;
+	}
+
+	const aParts = a.split(".");
+	const bParts = b.split(".");
+	for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+		if (aParts[i] === undefined) {
+			return -1;
+		}
+		if (bParts[i] === undefined) {
+			return 1;
+		}
+
+		const aNumeric = /^\d+$/.test(aParts[i]);
+		const bNumeric = /^\d+$/.test(bParts[i]);
+		if (aNumeric && bNumeric) {
+			const diff = parseInt(aParts[i], 10) - parseInt(bParts[i], 10);
+			if (diff !== 0) {
+				return Math.sign(diff);
+			}
+		} else if (aNumeric !== bNumeric) {
+			// Numeric identifiers have lower precedence than alphanumeric ones
+			return aNumeric ? -1 : 1;
+		} else if (aParts[i] !== bParts[i]) {
+			return aParts[i] < bParts[i] ? -1 : 1;
+		}
+	}
+	return 0;
+}
+
+/**
+ * Compares two versions using semver precedence (build metadata is ignored)
+ * CalVer versions are ordered the same way: segment by segment (year, then month or week, ...), then by prerelease
+ * Four-component versions are ordered by their revision after the patch version
+ * Returns a negative number if a < b, positive if a > b, and 0 if equal
+ */
+export function compareVersions(a: VersionInfo, b: VersionInfo): number {
+	return (
+		Math.sign(a.major - b.major) ||
+		Math.sign(a.minor - b.minor) ||
+		Math.sign(a.patch - b.patch) ||
+		Math.sign((a.revision ?? 0) - (b.revision ?? 0)) ||
+		comparePrerelease(a.prerelease, b.prerelease)
+	);
+}
+
+/**
+ * Finds the highest existing version in the same release line that is newer than the given version
+ * The line is the major version for major tags, the major.minor version for minor tags, the major.minor.patch version for patch tags,
+ * and every version for the latest tag
+ * Returns undefined when the given version is the highest in its line
+ */
+export function findNewerVersion(version: VersionInfo, existing: VersionInfo[], level: FloatingTagLevel = "major"): VersionInfo | undefined {
+	let newest: VersionInfo | undefined;
+	for (const candidate of existing) {
+		if (level !== "latest" && candidate.major !== version.major) {
+			continue;
+		}
+		if ((level === "minor" || level === "patch") && candidate.minor !== version.minor) {
+			continue;
+		}
+		if (level === "patch" && candidate.patch !== version.patch) {
+			continue;
+		}
+		if (compareVersions(candidate, version) > 0 && (!newest || compareVersions(candidate, newest) > 0)) {
+			newest = candidate;
+		}
+	}
+	return newest;
+}